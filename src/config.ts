@@ -8,9 +8,39 @@ const getEnv = (key: string, defaultValue?: string): string => {
   return value || defaultValue!;
 };
 
+// Signing secrets have a well-known default only for local development: they are
+// required in production, and a missing one is warned about everywhere else
+// (anyone who knows the default can forge signed links)
+const getSecret = (key: string, developmentDefault: string): string => {
+  const value = process.env[key] || Bun.env[key];
+  if (value) return value;
+
+  if ((process.env.NODE_ENV || Bun.env.NODE_ENV) === 'production') {
+    throw new Error(`Missing required environment variable: ${key}`);
+  }
+  console.warn(`[Config] WARNING: ${key} is not set - using an insecure default. Set it before deploying.`);
+  return developmentDefault;
+};
+
+// Parse "keyId:secret" pairs (comma-separated); the first key is the current one
+const parseSigningKeys = (value: string): { id: string; secret: string }[] => {
+  const keys = value.split(',').map((entry) => {
+    const [id, ...secret] = entry.trim().split(':');
+    return { id, secret: secret.join(':') };
+  });
+  if (keys.some(({ id, secret }) => !/^[a-zA-Z0-9_-]+$/.test(id) || !secret)) {
+    throw new Error('Invalid signing keys: expected comma-separated "keyId:secret" pairs');
+  }
+  return keys;
+};
+
 export const config = {
   port: parseInt(getEnv('API_PORT', '3001')),
 
+  // Number of reverse proxies in front of the API that append to X-Forwarded-For
+  // (0 = clients connect directly and the socket address is used)
+  trustedProxyCount: parseInt(getEnv('TRUSTED_PROXY_COUNT', '1')),
+
   database: {
     url: getEnv('DATABASE_URL'),
   },
@@ -30,6 +60,40 @@ export const config = {
     // Enable/disable tracking features
     enableOpenTracking: getEnv('ENABLE_OPEN_TRACKING', 'true') === 'true',
     enableClickTracking: getEnv('ENABLE_CLICK_TRACKING', 'true') === 'true',
+    // HMAC keys for signing tracking links; add a new key first to rotate, and keep
+    // old keys listed until the links they signed no longer matter
+    signingKeys: parseSigningKeys(getSecret('TRACKING_SIGNING_KEYS', 'default:default-tracking-secret')),
+    // Tracking links stop working this many days after sending (0 = never expire)
+    linkTtlDays: parseInt(getEnv('TRACKING_LINK_TTL_DAYS', '0')),
+    // Unsigned links in mail sent before tracking links were signed always redirect;
+    // turn this on to keep recording their opens and clicks (they can be forged)
+    recordUnsignedLinks: getEnv('TRACKING_RECORD_UNSIGNED_LINKS', 'false') === 'true',
+    // Requests per IP on the tracking endpoints (0 = unlimited)
+    rateLimitMax: parseInt(getEnv('TRACKING_RATE_LIMIT_MAX', '120')),
+    rateLimitWindowSeconds: parseInt(getEnv('TRACKING_RATE_LIMIT_WINDOW_SECONDS', '60')),
+  },
+
+  attachments: {
+    // Maximum combined size of all attachments on one message (decoded bytes)
+    maxTotalBytes: parseInt(getEnv('ATTACHMENT_MAX_TOTAL_BYTES', String(10 * 1024 * 1024))),
+    maxCount: parseInt(getEnv('ATTACHMENT_MAX_COUNT', '10')),
+    // How long stored attachments are kept after the message's send time (covers retries)
+    retentionDays: parseInt(getEnv('ATTACHMENT_RETENTION_DAYS', '7')),
+  },
+
+  dkim: {
+    // Colon-separated headers covered by the signature (List-Unsubscribe-Post must be signed for one-click)
+    headerFieldNames: getEnv(
+      'DKIM_HEADER_FIELDS',
+      'from:sender:reply-to:subject:date:message-id:to:cc:mime-version:content-type:content-transfer-encoding:list-unsubscribe:list-unsubscribe-post'
+    ),
+    // How long the worker caches a domain's signing key
+    keyCacheTtlSeconds: parseInt(getEnv('DKIM_KEY_CACHE_TTL_SECONDS', '300')),
+  },
+
+  unsubscribe: {
+    // HMAC key for signing List-Unsubscribe links (changing it invalidates links already sent)
+    secret: getSecret('UNSUBSCRIBE_SECRET', 'default-unsubscribe-secret'),
   },
 
   // For HMAC signature on webhooks
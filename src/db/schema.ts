@@ -1,4 +1,4 @@
-import { pgTable, varchar, timestamp, text, boolean, integer, decimal, pgEnum, index, uniqueIndex } from 'drizzle-orm/pg-core';
+import { pgTable, varchar, timestamp, text, boolean, integer, decimal, pgEnum, index, uniqueIndex, unique } from 'drizzle-orm/pg-core';
 import { relations } from 'drizzle-orm';
 
 // ============================================
@@ -33,6 +33,8 @@ export const emailTemplateCategory = pgTable('email_template_category', {
 	name: varchar('name', { length: 100 }).notNull(),
 	description: varchar('description', { length: 500 }),
 	color: varchar('color', { length: 7 }).default('#6366f1'),
+	// Default messageType of mail sent from templates in this category: 'transactional' | 'marketing'
+	messageType: varchar('message_type', { length: 20 }).notNull().default('marketing'),
 	createdAt: timestamp('created_at', { mode: 'date' }).notNull().$defaultFn(() => new Date()),
 	updatedAt: timestamp('updated_at', { mode: 'date' }).notNull().$defaultFn(() => new Date()).$onUpdate(() => new Date())
 });
@@ -48,6 +50,9 @@ export const emailTemplate = pgTable('email_template', {
 	jsonContent: text('json_content'),
 	previewText: varchar('preview_text', { length: 200 }),
 	isActive: boolean('is_active').notNull().default(true),
+	// Version rendered by /send (null = unversioned, the draft columns above are live)
+	publishedVersion: integer('published_version'),
+	publishedAt: timestamp('published_at', { mode: 'date' }),
 	createdAt: timestamp('created_at', { mode: 'date' }).notNull().$defaultFn(() => new Date()),
 	updatedAt: timestamp('updated_at', { mode: 'date' }).notNull().$defaultFn(() => new Date()).$onUpdate(() => new Date())
 }, (table) => ({
@@ -65,6 +70,37 @@ export const emailTemplateVariable = pgTable('email_template_variable', {
 	sortOrder: integer('sort_order').default(0)
 });
 
+// Per-locale content variants of a template draft (variables are shared)
+export const emailTemplateLocale = pgTable('email_template_locale', {
+	id: varchar('id', { length: 255 }).primaryKey(),
+	templateId: varchar('template_id', { length: 255 }).notNull().references(() => emailTemplate.id),
+	locale: varchar('locale', { length: 35 }).notNull(), // BCP 47 tag, e.g. 'id-ID' or 'en'
+	subject: varchar('subject', { length: 500 }).notNull(),
+	htmlContent: text('html_content').notNull(),
+	previewText: varchar('preview_text', { length: 200 }),
+	createdAt: timestamp('created_at', { mode: 'date' }).notNull().$defaultFn(() => new Date()),
+	updatedAt: timestamp('updated_at', { mode: 'date' }).notNull().$defaultFn(() => new Date()).$onUpdate(() => new Date())
+}, (table) => ({
+	templateLocaleIdx: uniqueIndex('email_template_locale_template_locale_idx').on(table.templateId, table.locale)
+}));
+
+// Immutable snapshots of a template, created on publish
+export const emailTemplateVersion = pgTable('email_template_version', {
+	id: varchar('id', { length: 255 }).primaryKey(),
+	templateId: varchar('template_id', { length: 255 }).notNull().references(() => emailTemplate.id),
+	version: integer('version').notNull(),
+	subject: varchar('subject', { length: 500 }).notNull(),
+	htmlContent: text('html_content').notNull(),
+	jsonContent: text('json_content'),
+	previewText: varchar('preview_text', { length: 200 }),
+	variables: text('variables').notNull(), // JSON snapshot of the variable definitions
+	locales: text('locales'), // JSON snapshot of the locale variants, keyed by locale
+	note: varchar('note', { length: 255 }),
+	createdAt: timestamp('created_at', { mode: 'date' }).notNull().$defaultFn(() => new Date())
+}, (table) => ({
+	templateVersionIdx: uniqueIndex('email_template_version_template_version_idx').on(table.templateId, table.version)
+}));
+
 export const domain = pgTable('domain', {
 	id: varchar('id', { length: 255 }).primaryKey(),
 	userId: varchar('user_id', { length: 255 }).notNull().references(() => user.id),
@@ -77,6 +113,9 @@ export const domain = pgTable('domain', {
 	cnameVerified: boolean('cname_verified').default(false),
 	cnameHost: varchar('cname_host', { length: 255 }),
 	cnameVerifiedAt: timestamp('cname_verified_at', { mode: 'date' }),
+	// Tracking defaults for mail from this domain (overridable per send)
+	trackOpens: boolean('track_opens').notNull().default(true),
+	trackClicks: boolean('track_clicks').notNull().default(true),
 	// SPF verification
 	spfVerified: boolean('spf_verified').default(false),
 	spfVerifiedAt: timestamp('spf_verified_at', { mode: 'date' }),
@@ -86,6 +125,7 @@ export const domain = pgTable('domain', {
 	dkimPrivateKey: text('dkim_private_key'),
 	dkimPublicKey: text('dkim_public_key'),
 	dkimVerifiedAt: timestamp('dkim_verified_at', { mode: 'date' }),
+	dkimRequired: boolean('dkim_required').notNull().default(false), // Refuse to send unsigned mail
 	// DMARC verification
 	dmarcVerified: boolean('dmarc_verified').default(false),
 	dmarcVerifiedAt: timestamp('dmarc_verified_at', { mode: 'date' }),
@@ -165,6 +205,10 @@ export const emailEvent = pgTable('email_event', {
 	subject: varchar('subject', { length: 500 }),
 	templateId: varchar('template_id', { length: 255 }).references(() => emailTemplate.id),
 	templateName: varchar('template_name', { length: 100 }),
+	templateVersion: integer('template_version'), // Template version rendered for this message
+	locale: varchar('locale', { length: 35 }), // Template locale variant rendered (null = default content)
+	tags: text('tags').array(), // Caller-supplied tags from /send, copied to every event of the message
+	customMetadata: text('custom_metadata'), // Caller-supplied metadata from /send (JSON), copied like tags
 	metadata: text('metadata'), // JSON for additional event data (click URL, bounce reason, etc.)
 	ipAddress: varchar('ip_address', { length: 45 }),
 	userAgent: varchar('user_agent', { length: 500 }),
@@ -173,7 +217,8 @@ export const emailEvent = pgTable('email_event', {
 	userIdx: index('email_event_user_idx').on(table.userId),
 	messageIdx: index('email_event_message_idx').on(table.messageId),
 	domainIdx: index('email_event_domain_idx').on(table.sendingDomain),
-	eventTypeIdx: index('email_event_type_idx').on(table.eventType)
+	eventTypeIdx: index('email_event_type_idx').on(table.eventType),
+	tagsIdx: index('email_event_tags_idx').using('gin', table.tags)
 }));
 
 export const webhookLog = pgTable('webhook_log', {
@@ -362,6 +407,8 @@ export const emailTemplateRelations = relations(emailTemplate, ({ one, many }) =
 		references: [emailTemplateCategory.id]
 	}),
 	variables: many(emailTemplateVariable),
+	locales: many(emailTemplateLocale),
+	versions: many(emailTemplateVersion),
 	emailEvents: many(emailEvent)
 }));
 
@@ -372,6 +419,20 @@ export const emailTemplateVariableRelations = relations(emailTemplateVariable, (
 	})
 }));
 
+export const emailTemplateLocaleRelations = relations(emailTemplateLocale, ({ one }) => ({
+	template: one(emailTemplate, {
+		fields: [emailTemplateLocale.templateId],
+		references: [emailTemplate.id]
+	})
+}));
+
+export const emailTemplateVersionRelations = relations(emailTemplateVersion, ({ one }) => ({
+	template: one(emailTemplate, {
+		fields: [emailTemplateVersion.templateId],
+		references: [emailTemplate.id]
+	})
+}));
+
 export const domainRelations = relations(domain, ({ one, many }) => ({
 	user: one(user, {
 		fields: [domain.userId],
@@ -533,6 +594,8 @@ export type Session = typeof session.$inferSelect;
 export type EmailTemplateCategory = typeof emailTemplateCategory.$inferSelect;
 export type EmailTemplate = typeof emailTemplate.$inferSelect;
 export type EmailTemplateVariable = typeof emailTemplateVariable.$inferSelect;
+export type EmailTemplateLocale = typeof emailTemplateLocale.$inferSelect;
+export type EmailTemplateVersion = typeof emailTemplateVersion.$inferSelect;
 export type Domain = typeof domain.$inferSelect;
 export type SmtpCredential = typeof smtpCredential.$inferSelect;
 export type DomainApiKey = typeof domainApiKey.$inferSelect;
@@ -554,6 +617,8 @@ export type NewSession = typeof session.$inferInsert;
 export type NewEmailTemplateCategory = typeof emailTemplateCategory.$inferInsert;
 export type NewEmailTemplate = typeof emailTemplate.$inferInsert;
 export type NewEmailTemplateVariable = typeof emailTemplateVariable.$inferInsert;
+export type NewEmailTemplateLocale = typeof emailTemplateLocale.$inferInsert;
+export type NewEmailTemplateVersion = typeof emailTemplateVersion.$inferInsert;
 export type NewDomain = typeof domain.$inferInsert;
 export type NewSmtpCredential = typeof smtpCredential.$inferInsert;
 export type NewDomainApiKey = typeof domainApiKey.$inferInsert;
@@ -602,6 +667,33 @@ export const emailTrackingOpen = pgTable('email_tracking_open', {
 	userIdx: index('email_tracking_open_user_idx').on(table.userId)
 }));
 
+// One row per recipient of a tracked message - tracking URLs carry this ID so
+// opens and clicks are attributed to the recipient, while links stay one row per URL
+export const emailTrackingRecipient = pgTable('email_tracking_recipient', {
+	id: varchar('id', { length: 255 }).primaryKey(),
+	userId: varchar('user_id', { length: 255 }).notNull().references(() => user.id),
+	messageId: varchar('message_id', { length: 255 }).notNull(),
+	recipientEmail: varchar('recipient_email', { length: 255 }).notNull(),
+	createdAt: timestamp('created_at', { mode: 'date' }).notNull().$defaultFn(() => new Date())
+}, (table) => ({
+	messageIdx: index('email_tracking_recipient_message_idx').on(table.messageId)
+}));
+
+export const emailAttachment = pgTable('email_attachment', {
+	id: varchar('id', { length: 255 }).primaryKey(),
+	userId: varchar('user_id', { length: 255 }).notNull().references(() => user.id),
+	filename: varchar('filename', { length: 255 }).notNull(),
+	contentType: varchar('content_type', { length: 255 }).notNull(),
+	contentId: varchar('content_id', { length: 255 }), // For inline images (cid:)
+	size: integer('size').notNull(), // Decoded size in bytes
+	content: text('content').notNull(), // Base64 encoded
+	expiresAt: timestamp('expires_at', { mode: 'date' }).notNull(),
+	createdAt: timestamp('created_at', { mode: 'date' }).notNull().$defaultFn(() => new Date())
+}, (table) => ({
+	userIdx: index('email_attachment_user_idx').on(table.userId),
+	expiresIdx: index('email_attachment_expires_idx').on(table.expiresAt)
+}));
+
 export const emailTrackingLinkRelations = relations(emailTrackingLink, ({ one }) => ({
 	user: one(user, {
 		fields: [emailTrackingLink.userId],
@@ -616,10 +708,28 @@ export const emailTrackingOpenRelations = relations(emailTrackingOpen, ({ one })
 	})
 }));
 
+export const emailTrackingRecipientRelations = relations(emailTrackingRecipient, ({ one }) => ({
+	user: one(user, {
+		fields: [emailTrackingRecipient.userId],
+		references: [user.id]
+	})
+}));
+
+export const emailAttachmentRelations = relations(emailAttachment, ({ one }) => ({
+	user: one(user, {
+		fields: [emailAttachment.userId],
+		references: [user.id]
+	})
+}));
+
 export type EmailTrackingLink = typeof emailTrackingLink.$inferSelect;
 export type NewEmailTrackingLink = typeof emailTrackingLink.$inferInsert;
 export type EmailTrackingOpen = typeof emailTrackingOpen.$inferSelect;
 export type NewEmailTrackingOpen = typeof emailTrackingOpen.$inferInsert;
+export type EmailTrackingRecipient = typeof emailTrackingRecipient.$inferSelect;
+export type NewEmailTrackingRecipient = typeof emailTrackingRecipient.$inferInsert;
+export type EmailAttachment = typeof emailAttachment.$inferSelect;
+export type NewEmailAttachment = typeof emailAttachment.$inferInsert;
 
 export const notification = pgTable('notification', {
 	id: varchar('id', { length: 255 }).primaryKey(),
@@ -660,13 +770,15 @@ export const emailSuppression = pgTable('email_suppression', {
 	id: varchar('id', { length: 255 }).primaryKey(),
 	userId: varchar('user_id', { length: 255 }).notNull().references(() => user.id),
 	domainId: varchar('domain_id', { length: 255 }).references(() => domain.id), // Optional: domain-specific suppression
+	categoryId: varchar('category_id', { length: 255 }).references(() => emailTemplateCategory.id), // Optional: opt-out of one template category only
 	email: varchar('email', { length: 255 }).notNull(),
 	reason: suppressionReasonEnum('reason').notNull(),
 	sourceEventId: varchar('source_event_id', { length: 255 }), // Link to triggering event
 	metadata: text('metadata'), // JSON: bounce reason, complaint type, etc.
 	createdAt: timestamp('created_at', { mode: 'date' }).notNull().$defaultFn(() => new Date()),
 }, (table) => ({
-	userEmailIdx: uniqueIndex('email_suppression_user_email_idx').on(table.userId, table.email),
+	// NULLS NOT DISTINCT so global and domain-wide entries (NULL domain/category) are deduplicated too
+	userEmailIdx: unique('email_suppression_user_email_idx').on(table.userId, table.email, table.domainId, table.categoryId).nullsNotDistinct(),
 	emailIdx: index('email_suppression_email_idx').on(table.email),
 	reasonIdx: index('email_suppression_reason_idx').on(table.reason),
 }));
@@ -680,6 +792,10 @@ export const emailSuppressionRelations = relations(emailSuppression, ({ one }) =
 		fields: [emailSuppression.domainId],
 		references: [domain.id]
 	}),
+	category: one(emailTemplateCategory, {
+		fields: [emailSuppression.categoryId],
+		references: [emailTemplateCategory.id]
+	}),
 	sourceEvent: one(emailEvent, {
 		fields: [emailSuppression.sourceEventId],
 		references: [emailEvent.id]
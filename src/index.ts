@@ -4,8 +4,12 @@ import { authMiddleware } from './middleware/auth';
 import { sendRoute } from './routes/send';
 import { eventsRoute } from './routes/events';
 import { suppressionRoute } from './routes/suppression';
+import { messagesRoute } from './routes/messages';
+import { templatesRoute } from './routes/templates';
+import { templateCategoriesRoute } from './routes/template-categories';
 import { adminQueueRoute } from './routes/admin/queues';
 import { trackingRoute } from './routes/tracking';
+import { unsubscribeRoute } from './routes/unsubscribe';
 
 const app = new Elysia()
   .use(cors())
@@ -15,6 +19,8 @@ const app = new Elysia()
   .use(adminQueueRoute)
   // Public tracking routes (no auth required)
   .use(trackingRoute)
+  // Public unsubscribe routes (signed token, no auth)
+  .use(unsubscribeRoute)
   .group('/api/v1', (app) =>
     app
       .use(authMiddleware)
@@ -29,6 +35,9 @@ const app = new Elysia()
       .use(sendRoute)
       .use(eventsRoute)
       .use(suppressionRoute)
+      .use(messagesRoute)
+      .use(templatesRoute)
+      .use(templateCategoriesRoute)
   )
   .listen(3001);
 
@@ -0,0 +1,41 @@
+import { nanoid } from 'nanoid';
+import { db, activityLog } from '../db';
+import { getClientIp } from './client-ip';
+
+/**
+ * Record an entry in the user's activity log
+ *
+ * Failures are logged and swallowed - activity logging must never
+ * break the operation it describes.
+ */
+export async function logActivity(entry: {
+  userId: string;
+  type: string; // e.g. 'template.created'
+  action: string; // e.g. 'created'
+  resourceType: string; // e.g. 'template'
+  resourceId?: string;
+  resourceName?: string;
+  metadata?: Record<string, unknown>;
+  request?: Request;
+}): Promise<void> {
+  const { request } = entry;
+  const ipAddress = (request && getClientIp(request)) || null;
+  const userAgent = request?.headers.get('user-agent') || null;
+
+  try {
+    await db.insert(activityLog).values({
+      id: nanoid(),
+      userId: entry.userId,
+      type: entry.type,
+      action: entry.action,
+      resourceType: entry.resourceType,
+      resourceId: entry.resourceId || null,
+      resourceName: entry.resourceName?.substring(0, 255) || null,
+      metadata: entry.metadata ? JSON.stringify(entry.metadata) : null,
+      ipAddress: ipAddress?.substring(0, 45) || null,
+      userAgent: userAgent?.substring(0, 500) || null,
+    });
+  } catch (error) {
+    console.error('Activity log error:', error);
+  }
+}
@@ -0,0 +1,222 @@
+import { inArray, lt, sql } from 'drizzle-orm';
+import { nanoid } from 'nanoid';
+import { db, emailAttachment } from '../db';
+import { config } from '../config';
+import type { EmailAttachmentRef } from '../queues/types';
+
+/**
+ * Attachment as received from the API (JSON or multipart form-data)
+ */
+export interface AttachmentInput {
+  filename: string;
+  contentType?: string;
+  content: string; // base64
+  contentId?: string;
+}
+
+/**
+ * Attachment after decoding and validation
+ */
+export interface ParsedAttachment {
+  filename: string;
+  contentType: string;
+  content: Buffer;
+  contentId?: string;
+}
+
+/**
+ * File extensions that are never accepted (executables and scripts)
+ */
+const BLOCKED_EXTENSIONS = [
+  'ade', 'adp', 'apk', 'appx', 'bat', 'chm', 'cmd', 'com', 'cpl', 'dll', 'dmg',
+  'exe', 'hta', 'ins', 'iso', 'isp', 'jar', 'js', 'jse', 'lib', 'lnk', 'mde',
+  'msc', 'msi', 'msix', 'msp', 'mst', 'nsh', 'pif', 'ps1', 'scr', 'sct', 'shb',
+  'sys', 'vb', 'vbe', 'vbs', 'vxd', 'wsc', 'wsf', 'wsh',
+];
+
+const BASE64_REGEX = /^[A-Za-z0-9+/]*={0,2}$/;
+
+/**
+ * Get the lowercase extension of a filename (without dot)
+ * Trailing dots and whitespace are ignored, since mail clients strip them when
+ * saving ("evil.exe." is saved as "evil.exe")
+ */
+function getExtension(filename: string): string {
+  const name = filename.replace(/[.\s]+$/, '');
+  const index = name.lastIndexOf('.');
+  return index === -1 ? '' : name.slice(index + 1).toLowerCase();
+}
+
+/**
+ * Normalize attachments from a send request
+ *
+ * Accepts a JSON array, a JSON string (form-data field) or uploaded files
+ * (multipart form-data), then enforces the count, size and extension limits.
+ */
+export async function parseAttachments(
+  raw: string | File | (AttachmentInput | File)[] | undefined
+): Promise<{ attachments: ParsedAttachment[] } | { error: string }> {
+  if (!raw) return { attachments: [] };
+
+  let items: (AttachmentInput | File)[];
+  if (typeof raw === 'string') {
+    try {
+      const parsed = JSON.parse(raw);
+      items = Array.isArray(parsed) ? parsed : [parsed];
+    } catch {
+      return { error: 'attachments must be a JSON array' };
+    }
+  } else {
+    items = Array.isArray(raw) ? raw : [raw];
+  }
+
+  if (items.length > config.attachments.maxCount) {
+    return { error: `A message may have at most ${config.attachments.maxCount} attachments` };
+  }
+
+  const attachments: ParsedAttachment[] = [];
+  let totalSize = 0;
+
+  for (const item of items) {
+    let attachment: ParsedAttachment;
+
+    if (item instanceof File) {
+      attachment = {
+        filename: item.name,
+        contentType: item.type || 'application/octet-stream',
+        content: Buffer.from(await item.arrayBuffer()),
+      };
+    } else {
+      if (!item || typeof item.filename !== 'string' || typeof item.content !== 'string') {
+        return { error: 'Each attachment requires filename and base64 content' };
+      }
+
+      const base64 = item.content.replace(/\s/g, '');
+      if (!BASE64_REGEX.test(base64)) {
+        return { error: `Attachment ${item.filename} content is not valid base64` };
+      }
+
+      attachment = {
+        filename: item.filename,
+        contentType: item.contentType || 'application/octet-stream',
+        content: Buffer.from(base64, 'base64'),
+        contentId: item.contentId,
+      };
+    }
+
+    if (!attachment.filename.trim()) {
+      return { error: 'Attachment filename is required' };
+    }
+
+    if (BLOCKED_EXTENSIONS.includes(getExtension(attachment.filename))) {
+      return { error: `Attachment type not allowed: ${attachment.filename}` };
+    }
+
+    totalSize += attachment.content.length;
+    if (totalSize > config.attachments.maxTotalBytes) {
+      return { error: `Total attachment size exceeds ${Math.floor(config.attachments.maxTotalBytes / (1024 * 1024))} MB` };
+    }
+
+    attachments.push(attachment);
+  }
+
+  return { attachments };
+}
+
+/**
+ * When stored attachments of a message sent at sendAt may be purged
+ */
+export function getAttachmentExpiry(sendAt: Date): Date {
+  return new Date(sendAt.getTime() + config.attachments.retentionDays * 24 * 60 * 60 * 1000);
+}
+
+/**
+ * Keep stored attachments until the retention period after a new send time
+ * (rescheduled or retried messages). Never shortens it, since the messages of
+ * one send share the same attachment rows
+ */
+export async function extendAttachmentRetention(
+  refs: EmailAttachmentRef[],
+  sendAt: Date,
+  executor: Pick<typeof db, 'update'> = db
+): Promise<void> {
+  if (refs.length === 0) return;
+
+  const expiresAt = getAttachmentExpiry(sendAt);
+  await executor
+    .update(emailAttachment)
+    .set({ expiresAt: sql`GREATEST(${emailAttachment.expiresAt}, ${expiresAt})` })
+    .where(inArray(emailAttachment.id, refs.map(r => r.id)));
+}
+
+/**
+ * Store attachments in the database and return lightweight references
+ * for the job payload, so the blobs never travel through Redis
+ */
+export async function storeAttachments(
+  userId: string,
+  attachments: ParsedAttachment[],
+  expiresAt: Date
+): Promise<EmailAttachmentRef[]> {
+  const refs: EmailAttachmentRef[] = [];
+
+  for (const attachment of attachments) {
+    const id = nanoid();
+    await db.insert(emailAttachment).values({
+      id,
+      userId,
+      filename: attachment.filename,
+      contentType: attachment.contentType,
+      contentId: attachment.contentId || null,
+      size: attachment.content.length,
+      content: attachment.content.toString('base64'),
+      expiresAt,
+    });
+
+    refs.push({
+      id,
+      filename: attachment.filename,
+      contentType: attachment.contentType,
+      contentId: attachment.contentId,
+      size: attachment.content.length,
+    });
+  }
+
+  return refs;
+}
+
+/**
+ * Load stored attachments in nodemailer format
+ * Throws if any referenced attachment is missing
+ */
+export async function loadAttachments(refs: EmailAttachmentRef[]): Promise<{
+  filename: string;
+  content: Buffer;
+  contentType: string;
+  cid?: string;
+}[]> {
+  const rows = await db
+    .select()
+    .from(emailAttachment)
+    .where(inArray(emailAttachment.id, refs.map(r => r.id)));
+
+  return refs.map((ref) => {
+    const row = rows.find(r => r.id === ref.id);
+    if (!row) {
+      throw new Error(`Attachment ${ref.filename} is no longer available`);
+    }
+    return {
+      filename: row.filename,
+      content: Buffer.from(row.content, 'base64'),
+      contentType: row.contentType,
+      cid: row.contentId || undefined,
+    };
+  });
+}
+
+/**
+ * Delete attachments past their retention window
+ */
+export async function purgeExpiredAttachments(): Promise<void> {
+  await db.delete(emailAttachment).where(lt(emailAttachment.expiresAt, new Date()));
+}
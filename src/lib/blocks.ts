@@ -0,0 +1,464 @@
+/**
+ * Block Design Renderer
+ *
+ * Compiles the block-based design stored in emailTemplate.jsonContent into
+ * email-safe HTML: nested tables for layout and inline styles only (no <style>
+ * blocks, which many clients strip).
+ *
+ * Design format:
+ *
+ *   {
+ *     "settings": { "width": 600, "backgroundColor": "#f4f4f5", "contentBackgroundColor": "#ffffff",
+ *                   "fontFamily": "Arial, sans-serif", "textColor": "#18181b", "linkColor": "#2563eb" },
+ *     "blocks": [
+ *       { "type": "heading", "text": "Hi {{ name }}", "level": 1, "align": "left" },
+ *       { "type": "text", "text": "Plain text, newlines become line breaks" },
+ *       { "type": "text", "html": "<b>Trusted</b> inline HTML" },
+ *       { "type": "button", "text": "Open", "url": "https://example.com/{{ id }}", "track": false },
+ *       { "type": "image", "src": "https://...", "alt": "Logo", "width": 120, "href": "https://..." },
+ *       { "type": "divider" },
+ *       { "type": "spacer", "height": 24 },
+ *       { "type": "columns", "columns": [[...blocks], [...blocks]] },
+ *       { "type": "html", "html": "<p>Raw HTML</p>" }
+ *     ]
+ *   }
+ *
+ * Buttons with "track": false are never wrapped by click tracking (data-track="false").
+ *
+ * Template tags ({{ ... }}) in block text and URLs are passed through untouched,
+ * so the compiled HTML is rendered with variables like any hand-written template.
+ */
+
+import { escapeHtml } from './template';
+
+/**
+ * Error raised when a design document is invalid
+ * path points at the offending block, e.g. "blocks[2].columns[0][1].url"
+ */
+export class BlockError extends Error {
+  constructor(
+    public readonly reason: string,
+    public readonly path: string
+  ) {
+    super(`${path}: ${reason}`);
+    this.name = 'BlockError';
+  }
+}
+
+// ============================================
+// Design types
+// ============================================
+
+type Align = 'left' | 'center' | 'right';
+
+interface DesignSettings {
+  width: number;
+  backgroundColor: string;
+  contentBackgroundColor: string;
+  fontFamily: string;
+  textColor: string;
+  linkColor: string;
+}
+
+type Block =
+  | { type: 'heading'; text: string; level: 1 | 2 | 3; align: Align; color?: string }
+  | { type: 'text'; text?: string; html?: string; align: Align; color?: string; fontSize: number }
+  | { type: 'button'; text: string; url: string; align: Align; backgroundColor: string; color: string; borderRadius: number; track: boolean }
+  | { type: 'image'; src: string; alt: string; width?: number; href?: string; align: Align }
+  | { type: 'divider'; color: string; thickness: number }
+  | { type: 'spacer'; height: number }
+  | { type: 'columns'; columns: Block[][] }
+  | { type: 'html'; html: string };
+
+export interface BlockDocument {
+  settings: DesignSettings;
+  blocks: Block[];
+}
+
+const DEFAULT_SETTINGS: DesignSettings = {
+  width: 600,
+  backgroundColor: '#f4f4f5',
+  contentBackgroundColor: '#ffffff',
+  fontFamily: 'Arial, Helvetica, sans-serif',
+  textColor: '#18181b',
+  linkColor: '#2563eb',
+};
+
+const HEADING_SIZES = { 1: 28, 2: 22, 3: 18 } as const;
+
+const MAX_COLUMNS = 4;
+
+// Hex, named or rgb()/rgba() colors - nothing that could break out of a style attribute
+const COLOR_REGEX = /^(#[0-9a-fA-F]{3,8}|[a-zA-Z]+|rgba?\([\d\s.,%]+\))$/;
+
+const FONT_FAMILY_REGEX = /^[\w\s,'"-]+$/;
+
+// Absolute http(s)/mailto/tel URLs, or a template tag that produces one
+const URL_REGEX = /^(https?:\/\/|mailto:|tel:|\{\{)/i;
+
+// ============================================
+// Validation
+// ============================================
+
+type RawObject = Record<string, unknown>;
+
+function isObject(value: unknown): value is RawObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function readString(raw: RawObject, key: string, path: string, required: true): string;
+function readString(raw: RawObject, key: string, path: string, required?: false): string | undefined;
+function readString(raw: RawObject, key: string, path: string, required = false): string | undefined {
+  const value = raw[key];
+  if (value === undefined || value === null) {
+    if (required) throw new BlockError(`"${key}" is required`, path);
+    return undefined;
+  }
+  if (typeof value !== 'string') {
+    throw new BlockError(`"${key}" must be a string`, `${path}.${key}`);
+  }
+  return value;
+}
+
+function readNumber(raw: RawObject, key: string, path: string, min: number, max: number): number | undefined {
+  const value = raw[key];
+  if (value === undefined || value === null) return undefined;
+  if (typeof value !== 'number' || !Number.isFinite(value) || value < min || value > max) {
+    throw new BlockError(`"${key}" must be a number between ${min} and ${max}`, `${path}.${key}`);
+  }
+  return value;
+}
+
+function readBoolean(raw: RawObject, key: string, path: string): boolean | undefined {
+  const value = raw[key];
+  if (value === undefined || value === null) return undefined;
+  if (typeof value !== 'boolean') {
+    throw new BlockError(`"${key}" must be a boolean`, `${path}.${key}`);
+  }
+  return value;
+}
+
+function readColor(raw: RawObject, key: string, path: string): string | undefined {
+  const value = readString(raw, key, path);
+  if (value !== undefined && !COLOR_REGEX.test(value.trim())) {
+    throw new BlockError(`"${key}" is not a valid color`, `${path}.${key}`);
+  }
+  return value?.trim();
+}
+
+function readAlign(raw: RawObject, path: string, fallback: Align): Align {
+  const value = readString(raw, 'align', path);
+  if (value === undefined) return fallback;
+  if (value !== 'left' && value !== 'center' && value !== 'right') {
+    throw new BlockError('"align" must be left, center or right', `${path}.align`);
+  }
+  return value;
+}
+
+function readUrl(raw: RawObject, key: string, path: string, required: true): string;
+function readUrl(raw: RawObject, key: string, path: string, required?: false): string | undefined;
+function readUrl(raw: RawObject, key: string, path: string, required = false): string | undefined {
+  const value = required ? readString(raw, key, path, true) : readString(raw, key, path);
+  if (value !== undefined && !URL_REGEX.test(value.trim())) {
+    throw new BlockError(`"${key}" must be an absolute http(s), mailto or tel URL`, `${path}.${key}`);
+  }
+  return value?.trim();
+}
+
+function parseBlock(raw: unknown, path: string, depth: number): Block {
+  if (!isObject(raw)) {
+    throw new BlockError('Block must be an object', path);
+  }
+
+  switch (raw.type) {
+    case 'heading': {
+      const level = readNumber(raw, 'level', path, 1, 3) ?? 1;
+      return {
+        type: 'heading',
+        text: readString(raw, 'text', path, true),
+        level: Math.round(level) as 1 | 2 | 3,
+        align: readAlign(raw, path, 'left'),
+        color: readColor(raw, 'color', path),
+      };
+    }
+
+    case 'text': {
+      const text = readString(raw, 'text', path);
+      const html = readString(raw, 'html', path);
+      if (text === undefined && html === undefined) {
+        throw new BlockError('Text block requires "text" or "html"', path);
+      }
+      return {
+        type: 'text',
+        text,
+        html,
+        align: readAlign(raw, path, 'left'),
+        color: readColor(raw, 'color', path),
+        fontSize: readNumber(raw, 'fontSize', path, 8, 72) ?? 16,
+      };
+    }
+
+    case 'button':
+      return {
+        type: 'button',
+        text: readString(raw, 'text', path, true),
+        url: readUrl(raw, 'url', path, true),
+        align: readAlign(raw, path, 'center'),
+        backgroundColor: readColor(raw, 'backgroundColor', path) ?? '#2563eb',
+        color: readColor(raw, 'color', path) ?? '#ffffff',
+        borderRadius: readNumber(raw, 'borderRadius', path, 0, 50) ?? 6,
+        track: readBoolean(raw, 'track', path) ?? true,
+      };
+
+    case 'image':
+      return {
+        type: 'image',
+        src: readUrl(raw, 'src', path, true),
+        alt: readString(raw, 'alt', path) ?? '',
+        width: readNumber(raw, 'width', path, 1, 2000),
+        href: readUrl(raw, 'href', path),
+        align: readAlign(raw, path, 'center'),
+      };
+
+    case 'divider':
+      return {
+        type: 'divider',
+        color: readColor(raw, 'color', path) ?? '#e4e4e7',
+        thickness: readNumber(raw, 'thickness', path, 1, 10) ?? 1,
+      };
+
+    case 'spacer':
+      return {
+        type: 'spacer',
+        height: readNumber(raw, 'height', path, 1, 200) ?? 24,
+      };
+
+    case 'columns': {
+      // Columns can't be nested - most clients can't lay that out reliably
+      if (depth > 0) {
+        throw new BlockError('Columns cannot be nested', path);
+      }
+      if (!Array.isArray(raw.columns) || raw.columns.length < 1 || raw.columns.length > MAX_COLUMNS) {
+        throw new BlockError(`"columns" must be an array of 1 to ${MAX_COLUMNS} block lists`, `${path}.columns`);
+      }
+      return {
+        type: 'columns',
+        columns: raw.columns.map((column, i) => {
+          if (!Array.isArray(column)) {
+            throw new BlockError('Column must be an array of blocks', `${path}.columns[${i}]`);
+          }
+          return column.map((block, j) => parseBlock(block, `${path}.columns[${i}][${j}]`, depth + 1));
+        }),
+      };
+    }
+
+    case 'html':
+      return { type: 'html', html: readString(raw, 'html', path, true) };
+
+    default:
+      throw new BlockError(`Unknown block type "${String(raw.type)}"`, `${path}.type`);
+  }
+}
+
+/**
+ * Validate a design document and fill in defaults
+ * Throws BlockError when the design is invalid
+ */
+export function parseBlockDocument(raw: unknown): BlockDocument {
+  if (!isObject(raw)) {
+    throw new BlockError('Design must be an object with a "blocks" array', '$');
+  }
+  if (!Array.isArray(raw.blocks)) {
+    throw new BlockError('"blocks" must be an array', 'blocks');
+  }
+
+  const settings = { ...DEFAULT_SETTINGS };
+  if (raw.settings !== undefined) {
+    if (!isObject(raw.settings)) {
+      throw new BlockError('"settings" must be an object', 'settings');
+    }
+    const s = raw.settings;
+    settings.width = readNumber(s, 'width', 'settings', 320, 1200) ?? settings.width;
+    settings.backgroundColor = readColor(s, 'backgroundColor', 'settings') ?? settings.backgroundColor;
+    settings.contentBackgroundColor = readColor(s, 'contentBackgroundColor', 'settings') ?? settings.contentBackgroundColor;
+    settings.textColor = readColor(s, 'textColor', 'settings') ?? settings.textColor;
+    settings.linkColor = readColor(s, 'linkColor', 'settings') ?? settings.linkColor;
+
+    const fontFamily = readString(s, 'fontFamily', 'settings');
+    if (fontFamily !== undefined) {
+      if (!FONT_FAMILY_REGEX.test(fontFamily)) {
+        throw new BlockError('"fontFamily" contains invalid characters', 'settings.fontFamily');
+      }
+      settings.fontFamily = fontFamily;
+    }
+  }
+
+  return {
+    settings,
+    blocks: raw.blocks.map((block, i) => parseBlock(block, `blocks[${i}]`, 0)),
+  };
+}
+
+// ============================================
+// Rendering
+// ============================================
+
+// Matches template tags, which must reach the template engine unescaped
+const TEMPLATE_TAG_REGEX = /(\{\{\{?[\s\S]*?\}?\}\})/;
+
+/**
+ * Escape text for HTML while leaving template tags intact
+ */
+function escapeText(value: string): string {
+  return value
+    .split(TEMPLATE_TAG_REGEX)
+    .map((part, i) => (i % 2 === 1 ? part : escapeHtml(part)))
+    .join('');
+}
+
+// Serialize a style object into an inline style attribute value
+function style(rules: Record<string, string | number | undefined>): string {
+  return Object.entries(rules)
+    .filter(([, value]) => value !== undefined && value !== '')
+    .map(([property, value]) => `${property}:${value}`)
+    .join(';');
+}
+
+function renderBlock(block: Block, settings: DesignSettings, width: number): string {
+  const baseText = {
+    'font-family': settings.fontFamily,
+    color: settings.textColor,
+    margin: 0,
+  };
+
+  switch (block.type) {
+    case 'heading': {
+      const size = HEADING_SIZES[block.level];
+      return `<h${block.level} style="${style({
+        ...baseText,
+        color: block.color ?? settings.textColor,
+        'font-size': `${size}px`,
+        'line-height': `${Math.round(size * 1.3)}px`,
+        'font-weight': 'bold',
+        'text-align': block.align,
+      })}">${escapeText(block.text)}</h${block.level}>`;
+    }
+
+    case 'text': {
+      // Links without their own styling get the design's link color inlined
+      const content = (block.html ?? escapeText(block.text ?? '').replace(/\r?\n/g, '<br>'))
+        .replace(/<a(?![^>]*\sstyle=)(?=[\s>])/gi, `<a style="color:${settings.linkColor};text-decoration:underline;"`);
+      return `<div style="${style({
+        ...baseText,
+        color: block.color ?? settings.textColor,
+        'font-size': `${block.fontSize}px`,
+        'line-height': `${Math.round(block.fontSize * 1.5)}px`,
+        'text-align': block.align,
+      })}">${content}</div>`;
+    }
+
+    case 'button':
+      return `<table role="presentation" cellpadding="0" cellspacing="0" border="0" align="${block.align}"><tr><td align="center" bgcolor="${block.backgroundColor}" style="${style({
+        'background-color': block.backgroundColor,
+        'border-radius': `${block.borderRadius}px`,
+      })}"><a href="${escapeText(block.url)}"${block.track ? '' : ' data-track="false"'} target="_blank" style="${style({
+        display: 'inline-block',
+        padding: '12px 24px',
+        'font-family': settings.fontFamily,
+        'font-size': '16px',
+        'font-weight': 'bold',
+        'line-height': '20px',
+        color: block.color,
+        'text-decoration': 'none',
+        'border-radius': `${block.borderRadius}px`,
+      })}">${escapeText(block.text)}</a></td></tr></table>`;
+
+    case 'image': {
+      const imageWidth = Math.min(block.width ?? width, width);
+      const img = `<img src="${escapeText(block.src)}" alt="${escapeText(block.alt)}" width="${imageWidth}" style="${style({
+        display: 'block',
+        width: '100%',
+        'max-width': `${imageWidth}px`,
+        height: 'auto',
+        border: 0,
+        outline: 'none',
+        'text-decoration': 'none',
+        margin: block.align === 'center' ? '0 auto' : block.align === 'right' ? '0 0 0 auto' : undefined,
+      })}">`;
+      return block.href
+        ? `<a href="${escapeText(block.href)}" target="_blank" style="text-decoration:none;">${img}</a>`
+        : img;
+    }
+
+    case 'divider':
+      return `<table role="presentation" width="100%" cellpadding="0" cellspacing="0" border="0"><tr><td style="${style({
+        'border-top': `${block.thickness}px solid ${block.color}`,
+        'font-size': '1px',
+        'line-height': '1px',
+      })}">&nbsp;</td></tr></table>`;
+
+    case 'spacer':
+      return `<div style="${style({
+        height: `${block.height}px`,
+        'line-height': `${block.height}px`,
+        'font-size': '1px',
+      })}">&nbsp;</div>`;
+
+    case 'columns': {
+      const columnWidth = Math.floor(width / block.columns.length);
+      const cells = block.columns.map((column) =>
+        `<td valign="top" width="${columnWidth}" style="${style({ width: `${columnWidth}px`, padding: '0 8px' })}">${
+          column.map((child) => renderBlockRow(child, settings, columnWidth - 16)).join('')
+        }</td>`
+      );
+      return `<table role="presentation" width="100%" cellpadding="0" cellspacing="0" border="0"><tr>${cells.join('')}</tr></table>`;
+    }
+
+    case 'html':
+      return block.html;
+  }
+}
+
+// Wrap a block in its own padded row so spacing is consistent across clients
+function renderBlockRow(block: Block, settings: DesignSettings, width: number): string {
+  const padding = block.type === 'spacer' || block.type === 'columns' ? '0' : '8px 0';
+  return `<table role="presentation" width="100%" cellpadding="0" cellspacing="0" border="0"><tr><td style="padding:${padding};">${
+    renderBlock(block, settings, width)
+  }</td></tr></table>`;
+}
+
+/**
+ * Compile a design document (parsed object or JSON string) to email HTML
+ * Throws BlockError when the design is invalid
+ */
+export function renderBlocksToHtml(design: unknown): string {
+  const { settings, blocks } = parseBlockDocument(typeof design === 'string' ? JSON.parse(design) : design);
+
+  // Inner content width, minus the 24px side padding
+  const contentWidth = settings.width - 48;
+  const rows = blocks.map((block) => renderBlockRow(block, settings, contentWidth)).join('\n');
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<meta http-equiv="X-UA-Compatible" content="IE=edge">
+</head>
+<body style="${style({ margin: 0, padding: 0, 'background-color': settings.backgroundColor })}">
+<table role="presentation" width="100%" cellpadding="0" cellspacing="0" border="0" bgcolor="${settings.backgroundColor}" style="${style({ 'background-color': settings.backgroundColor })}">
+<tr><td align="center" style="padding:24px 12px;">
+<table role="presentation" width="${settings.width}" cellpadding="0" cellspacing="0" border="0" bgcolor="${settings.contentBackgroundColor}" style="${style({
+    width: '100%',
+    'max-width': `${settings.width}px`,
+    'background-color': settings.contentBackgroundColor,
+  })}">
+<tr><td style="padding:24px;">
+${rows}
+</td></tr>
+</table>
+</td></tr>
+</table>
+</body>
+</html>`;
+}
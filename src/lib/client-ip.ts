@@ -0,0 +1,39 @@
+import type { Server } from 'bun';
+import { config } from '../config';
+
+/**
+ * Get the entry the outermost trusted proxy appended to a forwarding header
+ * (X-Forwarded-For, X-Forwarded-Host). Entries left of it are supplied by the
+ * client and can't be trusted. Returns null without trusted proxies, or when the
+ * header has fewer entries than there are proxies.
+ */
+function getTrustedForwardedValue(request: Request, header: string): string | null {
+  const proxyCount = config.trustedProxyCount;
+  if (proxyCount <= 0) return null;
+
+  const hops = (request.headers.get(header) ?? '')
+    .split(',')
+    .map((hop) => hop.trim())
+    .filter(Boolean);
+  return hops[hops.length - proxyCount] || null;
+}
+
+/**
+ * Get the address a request came from
+ * Behind trusted proxies this is the X-Forwarded-For hop the proxy appended;
+ * otherwise (or when the header is missing) it's the socket address.
+ */
+export function getClientIp(request: Request, server?: Server<unknown> | null): string {
+  return getTrustedForwardedValue(request, 'x-forwarded-for')
+    ?? server?.requestIP(request)?.address
+    ?? '';
+}
+
+/**
+ * Get the host a request was addressed to
+ * X-Forwarded-Host is only honoured behind trusted proxies (the entry the proxy
+ * appended); otherwise it's the Host header.
+ */
+export function getRequestHost(request: Request): string | null {
+  return getTrustedForwardedValue(request, 'x-forwarded-host') ?? request.headers.get('host');
+}
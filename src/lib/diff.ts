@@ -0,0 +1,81 @@
+/**
+ * A single line in a line-based diff
+ */
+export interface DiffLine {
+  type: 'added' | 'removed' | 'unchanged';
+  text: string;
+}
+
+/**
+ * Largest LCS table (changed lines before x changed lines after) diffLines builds,
+ * about 64 MB. Bigger changes are shown as a whole-block replacement instead.
+ */
+const MAX_LCS_CELLS = 8_000_000;
+
+/**
+ * Compute a line-based diff between two texts (longest common subsequence)
+ *
+ * The common prefix and suffix are trimmed first, so typical template edits
+ * only run the quadratic part on the lines that actually changed. When that
+ * part is too large, the changed lines are reported as removed, then added.
+ */
+export function diffLines(before: string, after: string): DiffLine[] {
+  const a = before.split('\n');
+  const b = after.split('\n');
+
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const midA = a.slice(start, endA);
+  const midB = b.slice(start, endB);
+
+  if ((midA.length + 1) * (midB.length + 1) > MAX_LCS_CELLS) {
+    return [
+      ...a.slice(0, start).map(text => ({ type: 'unchanged' as const, text })),
+      ...midA.map(text => ({ type: 'removed' as const, text })),
+      ...midB.map(text => ({ type: 'added' as const, text })),
+      ...a.slice(endA).map(text => ({ type: 'unchanged' as const, text })),
+    ];
+  }
+
+  // lengths[i][j] = LCS length of midA[i..] and midB[j..]
+  const lengths: number[][] = Array.from({ length: midA.length + 1 }, () => new Array(midB.length + 1).fill(0));
+  for (let i = midA.length - 1; i >= 0; i--) {
+    for (let j = midB.length - 1; j >= 0; j--) {
+      lengths[i][j] = midA[i] === midB[j]
+        ? lengths[i + 1][j + 1] + 1
+        : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const result: DiffLine[] = a.slice(0, start).map(text => ({ type: 'unchanged' as const, text }));
+
+  let i = 0;
+  let j = 0;
+  while (i < midA.length && j < midB.length) {
+    if (midA[i] === midB[j]) {
+      result.push({ type: 'unchanged', text: midA[i] });
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      result.push({ type: 'removed', text: midA[i++] });
+    } else {
+      result.push({ type: 'added', text: midB[j++] });
+    }
+  }
+  while (i < midA.length) result.push({ type: 'removed', text: midA[i++] });
+  while (j < midB.length) result.push({ type: 'added', text: midB[j++] });
+
+  for (const text of a.slice(endA)) {
+    result.push({ type: 'unchanged', text });
+  }
+
+  return result;
+}
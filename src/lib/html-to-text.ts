@@ -0,0 +1,213 @@
+/**
+ * HTML to plain text conversion for the text/plain alternative part
+ *
+ * - Links become "text (url)" (or just the url when the text is the url)
+ * - Lists become "- item" / "1. item", table cells are separated by " | "
+ * - Hidden elements (display:none, e.g. the preheader and tracking pixel),
+ *   1x1 images, <head>, <style> and <script> are dropped
+ */
+
+// Matches an opening or closing tag: [full, slash, name, attributes]
+const TAG_REGEX = /<(\/?)([a-zA-Z][a-zA-Z0-9]*)\b([^>]*)>/g;
+
+// Elements with no closing tag
+const VOID_ELEMENTS = new Set(['br', 'hr', 'img', 'input', 'meta', 'link', 'col', 'area', 'base', 'wbr', 'source']);
+
+// Elements whose content is never shown
+const SKIPPED_ELEMENTS = new Set(['head', 'style', 'script', 'title', 'noscript']);
+
+// Block elements separated by a blank line / a single line break
+const PARAGRAPH_ELEMENTS = new Set(['p', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'blockquote', 'table', 'ul', 'ol']);
+const LINE_ELEMENTS = new Set(['div', 'tr', 'li', 'section', 'article', 'header', 'footer', 'center']);
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+  copy: '©',
+  reg: '®',
+  trade: '™',
+  hellip: '…',
+  mdash: '—',
+  ndash: '–',
+  lsquo: '‘',
+  rsquo: '’',
+  ldquo: '“',
+  rdquo: '”',
+  bull: '•',
+  middot: '·',
+  euro: '€',
+  zwnj: '',
+};
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-fA-F]+|#\d+|[a-zA-Z]+);/g, (match, entity: string) => {
+    if (entity[0] === '#') {
+      const code = entity[1].toLowerCase() === 'x' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+      return Number.isFinite(code) && code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : match;
+    }
+    return NAMED_ENTITIES[entity.toLowerCase()] ?? match;
+  });
+}
+
+function getAttribute(attributes: string, name: string): string | undefined {
+  const match = attributes.match(new RegExp(`\\b${name}\\s*=\\s*(?:"([^"]*)"|'([^']*)'|([^\\s>]+))`, 'i'));
+  if (!match) return undefined;
+  return decodeEntities(match[1] ?? match[2] ?? match[3] ?? '');
+}
+
+function isHidden(attributes: string): boolean {
+  const style = getAttribute(attributes, 'style');
+  if (style && /display\s*:\s*none/i.test(style)) return true;
+  return /\bhidden\b/i.test(attributes.replace(/\s*=\s*("[^"]*"|'[^']*')/g, ''));
+}
+
+// Tracking pixels and spacer images
+function isPixel(attributes: string): boolean {
+  return getAttribute(attributes, 'width') === '1' && getAttribute(attributes, 'height') === '1';
+}
+
+/**
+ * Convert an HTML document to readable plain text
+ */
+export function htmlToText(html: string): string {
+  // Comments (including Outlook conditional comments) never render as text
+  const source = html.replace(/<!--[\s\S]*?-->/g, '').replace(/<!DOCTYPE[^>]*>/gi, '');
+
+  let output = '';
+  const lists: { ordered: boolean; index: number }[] = [];
+  const links: { href: string; start: number }[] = [];
+  // Element being skipped (hidden or non-visual) and how deeply it is nested
+  let skip: { name: string; depth: number } | null = null;
+
+  const currentLine = () => output.slice(output.lastIndexOf('\n') + 1);
+
+  const ensureNewlines = (count: number) => {
+    if (!output) return;
+    const trailing = output.length - output.replace(/\n*$/, '').length;
+    if (trailing < count) output = output.replace(/[ \t]+$/, '') + '\n'.repeat(count - trailing);
+  };
+
+  const appendText = (text: string) => {
+    const collapsed = decodeEntities(text.replace(/\s+/g, ' '));
+    // No leading whitespace at the start of a line
+    output += /(^|\n)$/.test(output) ? collapsed.replace(/^ +/, '') : collapsed;
+  };
+
+  let lastIndex = 0;
+  TAG_REGEX.lastIndex = 0;
+  let match: RegExpExecArray | null;
+
+  while ((match = TAG_REGEX.exec(source)) !== null) {
+    const [tag, slash, rawName, attributes] = match;
+    const name = rawName.toLowerCase();
+    const closing = slash === '/';
+
+    const text = source.slice(lastIndex, match.index);
+    lastIndex = match.index + tag.length;
+
+    if (skip) {
+      if (name === skip.name && !VOID_ELEMENTS.has(name)) {
+        skip.depth += closing ? -1 : 1;
+        if (skip.depth === 0) skip = null;
+      }
+      continue;
+    }
+
+    if (text) appendText(text);
+
+    if (!closing && (SKIPPED_ELEMENTS.has(name) || isHidden(attributes))) {
+      if (!VOID_ELEMENTS.has(name) && !attributes.trim().endsWith('/')) {
+        skip = { name, depth: 1 };
+      }
+      continue;
+    }
+
+    if (closing) {
+      switch (name) {
+        case 'a': {
+          const link = links.pop();
+          if (!link) break;
+          const label = output.slice(link.start).trim();
+          const href = link.href.replace(/^mailto:/i, '');
+          if (!label) {
+            output += href;
+          } else if (label !== href && label !== link.href) {
+            output += ` (${href})`;
+          }
+          break;
+        }
+        case 'ul':
+        case 'ol':
+          lists.pop();
+          ensureNewlines(2);
+          break;
+        default:
+          if (PARAGRAPH_ELEMENTS.has(name)) ensureNewlines(2);
+          else if (LINE_ELEMENTS.has(name)) ensureNewlines(1);
+      }
+      continue;
+    }
+
+    switch (name) {
+      case 'br':
+        output = output.replace(/[ \t]+$/, '') + '\n';
+        break;
+      case 'hr':
+        ensureNewlines(1);
+        output += '-'.repeat(40);
+        ensureNewlines(1);
+        break;
+      case 'img': {
+        const alt = getAttribute(attributes, 'alt')?.trim();
+        if (alt && !isPixel(attributes)) appendText(alt);
+        break;
+      }
+      case 'a': {
+        const href = getAttribute(attributes, 'href')?.trim() ?? '';
+        // Anchors and script links mean nothing in plain text
+        if (href && !href.startsWith('#') && !/^javascript:/i.test(href)) {
+          links.push({ href, start: output.length });
+        }
+        break;
+      }
+      case 'ul':
+      case 'ol':
+        ensureNewlines(lists.length > 0 ? 1 : 2);
+        lists.push({ ordered: name === 'ol', index: 0 });
+        break;
+      case 'li': {
+        ensureNewlines(1);
+        const list = lists[lists.length - 1];
+        const indent = '  '.repeat(Math.max(0, lists.length - 1));
+        if (list?.ordered) {
+          list.index++;
+          output += `${indent}${list.index}. `;
+        } else {
+          output += `${indent}- `;
+        }
+        break;
+      }
+      case 'td':
+      case 'th':
+        // Separate cells that share a line
+        if (currentLine().trim()) output = output.replace(/ +$/, '') + ' | ';
+        break;
+      default:
+        if (PARAGRAPH_ELEMENTS.has(name)) ensureNewlines(2);
+        else if (LINE_ELEMENTS.has(name)) ensureNewlines(1);
+    }
+  }
+
+  if (!skip) appendText(source.slice(lastIndex));
+
+  return output
+    .split('\n')
+    .map(line => line.replace(/[ \t]+$/, ''))
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
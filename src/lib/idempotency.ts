@@ -0,0 +1,144 @@
+import { createHash } from 'crypto';
+import { redisConnection } from '../queues';
+
+// How long a completed response is kept for replay
+const IDEMPOTENCY_TTL_SECONDS = 24 * 60 * 60;
+
+// How long a request may hold the key while it is being processed
+// (short, so a crashed request doesn't block retries for a whole day)
+const IN_PROGRESS_TTL_SECONDS = 5 * 60;
+
+const MAX_KEY_LENGTH = 255;
+
+interface IdempotencyRecord {
+  fingerprint: string;
+  state: 'processing' | 'completed';
+  status?: number;
+  response?: unknown;
+}
+
+interface ResponseContext {
+  status?: number | string;
+  headers: Record<string, string | number>;
+}
+
+/**
+ * Build a stable hash of the request body
+ * Object keys are sorted and uploaded files are hashed by content
+ */
+async function fingerprintBody(body: unknown): Promise<string> {
+  const hash = createHash('sha256');
+
+  const visit = async (value: unknown): Promise<void> => {
+    if (value instanceof File) {
+      hash.update(`file:${value.name}:${value.type}:`);
+      hash.update(Buffer.from(await value.arrayBuffer()));
+    } else if (Array.isArray(value)) {
+      hash.update('[');
+      for (const item of value) {
+        await visit(item);
+        hash.update(',');
+      }
+      hash.update(']');
+    } else if (value && typeof value === 'object') {
+      hash.update('{');
+      for (const key of Object.keys(value).sort()) {
+        hash.update(JSON.stringify(key) + ':');
+        await visit((value as Record<string, unknown>)[key]);
+        hash.update(',');
+      }
+      hash.update('}');
+    } else {
+      hash.update(JSON.stringify(value) ?? 'undefined');
+    }
+  };
+
+  await visit(body);
+  return hash.digest('hex');
+}
+
+/**
+ * Run a handler at most once per Idempotency-Key
+ *
+ * Keys are scoped per API key. A repeated request with the same key and body
+ * replays the stored response; the same key with a different body gets a 422.
+ * Only successful (2xx) responses are stored - failures release the key so
+ * the client can retry.
+ */
+export async function withIdempotency<T>(
+  apiKeyId: string,
+  idempotencyKey: string | undefined,
+  body: unknown,
+  set: ResponseContext,
+  handler: () => Promise<T>
+): Promise<T | { error: string; message: string }> {
+  if (idempotencyKey === undefined) {
+    return handler();
+  }
+
+  if (!idempotencyKey || idempotencyKey.length > MAX_KEY_LENGTH) {
+    set.status = 400;
+    return {
+      error: 'Bad Request',
+      message: `Idempotency-Key must be between 1 and ${MAX_KEY_LENGTH} characters`,
+    };
+  }
+
+  const redisKey = `idempotency:${apiKeyId}:${idempotencyKey}`;
+  const fingerprint = await fingerprintBody(body);
+
+  // Claim the key (only succeeds if no request has used it yet)
+  const claimed = await redisConnection.set(
+    redisKey,
+    JSON.stringify({ fingerprint, state: 'processing' } satisfies IdempotencyRecord),
+    'EX',
+    IN_PROGRESS_TTL_SECONDS,
+    'NX'
+  );
+
+  if (!claimed) {
+    const stored = await redisConnection.get(redisKey);
+    const record: IdempotencyRecord | null = stored ? JSON.parse(stored) : null;
+
+    if (record && record.fingerprint !== fingerprint) {
+      set.status = 422;
+      return {
+        error: 'Unprocessable Entity',
+        message: 'Idempotency-Key was already used with a different request body',
+      };
+    }
+
+    if (record?.state === 'completed') {
+      set.status = record.status ?? 200;
+      set.headers['idempotent-replayed'] = 'true';
+      return record.response as T;
+    }
+
+    set.status = 409;
+    return {
+      error: 'Conflict',
+      message: 'A request with this Idempotency-Key is still being processed',
+    };
+  }
+
+  try {
+    const response = await handler();
+    const status = typeof set.status === 'number' ? set.status : 200;
+
+    if (status >= 200 && status < 300) {
+      await redisConnection.set(
+        redisKey,
+        JSON.stringify({ fingerprint, state: 'completed', status, response } satisfies IdempotencyRecord),
+        'EX',
+        IDEMPOTENCY_TTL_SECONDS
+      );
+    } else {
+      await redisConnection.del(redisKey);
+    }
+
+    return response;
+  } catch (error) {
+    await redisConnection.del(redisKey);
+    throw error;
+  }
+}
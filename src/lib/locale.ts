@@ -0,0 +1,42 @@
+/**
+ * Canonicalize a BCP 47 locale tag (e.g. 'id-id' -> 'id-ID')
+ * Returns null when the tag is not a valid locale
+ */
+export function normalizeLocale(locale: string): string | null {
+  try {
+    return Intl.getCanonicalLocales(locale.trim())[0] ?? null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Build the fallback chain for a locale, most specific first
+ * e.g. 'zh-Hant-TW' -> ['zh-Hant-TW', 'zh-Hant', 'zh']
+ */
+export function localeFallbackChain(locale: string): string[] {
+  const parts = locale.split('-');
+  const chain: string[] = [];
+  for (let i = parts.length; i > 0; i--) {
+    chain.push(parts.slice(0, i).join('-'));
+  }
+  return chain;
+}
+
+/**
+ * Pick the best matching variant for a locale
+ * Matching is case-insensitive; returns null when only the default content applies
+ */
+export function resolveLocale<T>(
+  variants: Record<string, T>,
+  locale: string | undefined
+): { locale: string; variant: T } | null {
+  if (!locale) return null;
+
+  const available = new Map(Object.keys(variants).map(key => [key.toLowerCase(), key]));
+  for (const candidate of localeFallbackChain(locale)) {
+    const key = available.get(candidate.toLowerCase());
+    if (key) return { locale: key, variant: variants[key] };
+  }
+  return null;
+}
@@ -0,0 +1,21 @@
+import { redisConnection } from '../queues';
+
+/**
+ * Count a request against a fixed-window limit kept in Redis (shared by all API instances)
+ * Returns the seconds until the window resets when the limit is exceeded, null otherwise
+ */
+export async function checkRateLimit(key: string, max: number, windowSeconds: number): Promise<number | null> {
+  const now = Math.floor(Date.now() / 1000);
+  const redisKey = `ratelimit:${key}:${Math.floor(now / windowSeconds)}`;
+
+  const results = await redisConnection
+    .multi()
+    .incr(redisKey)
+    .expire(redisKey, windowSeconds)
+    .exec();
+
+  const count = Number(results?.[0]?.[1] ?? 0);
+  if (count <= max) return null;
+
+  return windowSeconds - (now % windowSeconds);
+}
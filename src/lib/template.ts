@@ -0,0 +1,640 @@
+/**
+ * Template Engine
+ *
+ * Renders email templates with a small mustache-like syntax:
+ *
+ * - {{ name }}                 HTML-escaped output (nested paths: {{ order.total }}, {{ items.0.name }})
+ * - {{{ html }}}               raw (unescaped) output, same as {{ html | raw }}
+ * - {{ name | upper }}         filters, chained left to right, with optional args: {{ total | currency:"IDR","id-ID" }}
+ * - {{#if cond}}..{{else if cond}}..{{else}}..{{/if}}
+ * - {{#unless cond}}..{{/unless}}
+ * - {{#each items}}..{{else}}..{{/each}}   loop; inside: {{ this }}, {{ @index }}, {{ @first }}, {{ @last }}, {{ @key }}
+ * - {{#each items as item}}..{{/each}}     loop with a named item
+ * - {{! comment }}
+ *
+ * Conditions support comparisons (==, !=, >, <, >=, <=), negation (!) and `and` / `or`.
+ * Syntax errors are reported as TemplateError with the line and column of the offending tag.
+ */
+
+export type TemplateContext = Record<string, unknown>;
+
+/**
+ * Error raised when a template cannot be parsed or rendered
+ */
+export class TemplateError extends Error {
+  constructor(
+    public readonly reason: string,
+    public readonly line: number,
+    public readonly column: number,
+    public readonly field?: string
+  ) {
+    super(`${field ? `${field}: ` : ''}${reason} (line ${line}, column ${column})`);
+    this.name = 'TemplateError';
+  }
+}
+
+// ============================================
+// AST
+// ============================================
+
+interface Position {
+  line: number;
+  column: number;
+}
+
+type Operand =
+  | { kind: 'literal'; value: unknown }
+  | { kind: 'path'; path: string[]; source: string };
+
+interface Filter {
+  name: string;
+  args: Operand[];
+}
+
+interface OutputExpression {
+  operand: Operand;
+  filters: Filter[];
+}
+
+type Condition =
+  | { kind: 'or' | 'and'; left: Condition; right: Condition }
+  | { kind: 'not'; operand: Condition }
+  | { kind: 'compare'; left: Operand; op: string; right: Operand }
+  | { kind: 'truthy'; operand: Operand };
+
+type Node =
+  | { type: 'text'; value: string }
+  | { type: 'output'; expression: OutputExpression; raw: boolean; position: Position }
+  | { type: 'if'; branches: { condition: Condition; body: Node[] }[]; elseBody: Node[] }
+  | { type: 'each'; operand: Operand; alias?: string; body: Node[]; elseBody: Node[] };
+
+// ============================================
+// Filters
+// ============================================
+
+type FilterFn = (value: unknown, ...args: unknown[]) => unknown;
+
+const pad = (n: number, width = 2) => String(n).padStart(width, '0');
+
+function toDate(value: unknown): Date | null {
+  if (value instanceof Date) return value;
+  if (typeof value === 'string' || typeof value === 'number') {
+    const date = new Date(value);
+    return isNaN(date.getTime()) ? null : date;
+  }
+  return null;
+}
+
+function formatDate(date: Date, format: string, locale: string): string {
+  const monthName = (style: 'long' | 'short') =>
+    new Intl.DateTimeFormat(locale, { month: style, timeZone: 'UTC' }).format(date);
+
+  // Longest tokens first so "MMMM" isn't consumed as "MM" + "MM"
+  return format.replace(/YYYY|YY|MMMM|MMM|MM|M|DD|D|HH|H|mm|ss/g, (token) => {
+    switch (token) {
+      case 'YYYY': return String(date.getUTCFullYear());
+      case 'YY': return pad(date.getUTCFullYear() % 100);
+      case 'MMMM': return monthName('long');
+      case 'MMM': return monthName('short');
+      case 'MM': return pad(date.getUTCMonth() + 1);
+      case 'M': return String(date.getUTCMonth() + 1);
+      case 'DD': return pad(date.getUTCDate());
+      case 'D': return String(date.getUTCDate());
+      case 'HH': return pad(date.getUTCHours());
+      case 'H': return String(date.getUTCHours());
+      case 'mm': return pad(date.getUTCMinutes());
+      case 'ss': return pad(date.getUTCSeconds());
+      default: return token;
+    }
+  });
+}
+
+function toNumber(value: unknown): number | null {
+  const n = typeof value === 'number' ? value : typeof value === 'string' && value.trim() !== '' ? Number(value) : NaN;
+  return isNaN(n) ? null : n;
+}
+
+const FILTERS: Record<string, FilterFn> = {
+  upper: (v) => stringify(v).toUpperCase(),
+  uppercase: (v) => stringify(v).toUpperCase(),
+  lower: (v) => stringify(v).toLowerCase(),
+  lowercase: (v) => stringify(v).toLowerCase(),
+  capitalize: (v) => {
+    const s = stringify(v);
+    return s.charAt(0).toUpperCase() + s.slice(1);
+  },
+  trim: (v) => stringify(v).trim(),
+  truncate: (v, length = 50, suffix = '...') => {
+    const s = stringify(v);
+    const max = toNumber(length) ?? 50;
+    return s.length > max ? s.slice(0, max) + stringify(suffix) : s;
+  },
+  default: (v, fallback = '') => (v === undefined || v === null || v === '' ? fallback : v),
+  date: (v, format = 'YYYY-MM-DD', locale = 'en-US') => {
+    const date = toDate(v);
+    return date ? formatDate(date, stringify(format), stringify(locale)) : v;
+  },
+  currency: (v, currency = 'USD', locale = 'en-US') => {
+    const n = toNumber(v);
+    if (n === null) return v;
+    try {
+      return new Intl.NumberFormat(stringify(locale), { style: 'currency', currency: stringify(currency) }).format(n);
+    } catch {
+      return v;
+    }
+  },
+  number: (v, decimals, locale = 'en-US') => {
+    const n = toNumber(v);
+    if (n === null) return v;
+    const digits = toNumber(decimals);
+    return new Intl.NumberFormat(stringify(locale), digits === null
+      ? undefined
+      : { minimumFractionDigits: digits, maximumFractionDigits: digits }
+    ).format(n);
+  },
+  json: (v) => JSON.stringify(v ?? null),
+  // raw/escape only change how the final value is written (handled in render)
+  raw: (v) => v,
+  escape: (v) => v,
+};
+
+// ============================================
+// Helpers
+// ============================================
+
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#039;');
+}
+
+function stringify(value: unknown): string {
+  if (value === undefined || value === null) return '';
+  if (typeof value === 'string') return value;
+  if (value instanceof Date) return value.toISOString();
+  if (Array.isArray(value)) return value.map(stringify).join(', ');
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
+function isTruthy(value: unknown): boolean {
+  if (Array.isArray(value)) return value.length > 0;
+  if (value && typeof value === 'object') return Object.keys(value).length > 0;
+  return Boolean(value);
+}
+
+// Split on a separator that is not inside a quoted string
+function splitOutsideQuotes(source: string, separator: string): string[] {
+  const parts: string[] = [];
+  let quote: string | null = null;
+  let start = 0;
+
+  for (let i = 0; i < source.length; i++) {
+    const ch = source[i];
+    if (quote) {
+      if (ch === '\\') i++;
+      else if (ch === quote) quote = null;
+    } else if (ch === '"' || ch === "'") {
+      quote = ch;
+    } else if (source.startsWith(separator, i)) {
+      parts.push(source.slice(start, i));
+      start = i + separator.length;
+      i += separator.length - 1;
+    }
+  }
+
+  parts.push(source.slice(start));
+  return parts;
+}
+
+// Split on a keyword (e.g. " and ") outside quotes, case-insensitive
+function splitOnKeyword(source: string, keyword: string): string[] {
+  const pattern = ` ${keyword} `;
+  const lowered = source.toLowerCase();
+  const parts: string[] = [];
+  let quote: string | null = null;
+  let start = 0;
+
+  for (let i = 0; i < source.length; i++) {
+    const ch = source[i];
+    if (quote) {
+      if (ch === '\\') i++;
+      else if (ch === quote) quote = null;
+    } else if (ch === '"' || ch === "'") {
+      quote = ch;
+    } else if (lowered.startsWith(pattern, i)) {
+      parts.push(source.slice(start, i));
+      start = i + pattern.length;
+      i += pattern.length - 1;
+    }
+  }
+
+  parts.push(source.slice(start));
+  return parts;
+}
+
+const PATH_REGEX = /^(?:this|@?[A-Za-z_][\w-]*)(?:\.(?:[A-Za-z_][\w-]*|\d+))*$/;
+
+// ============================================
+// Parser
+// ============================================
+
+function parseOperand(source: string, position: Position): Operand {
+  const value = source.trim();
+
+  if (!value) {
+    throw new TemplateError('Missing expression', position.line, position.column);
+  }
+
+  if ((value.startsWith('"') && value.endsWith('"')) || (value.startsWith("'") && value.endsWith("'"))) {
+    if (value.length < 2) {
+      throw new TemplateError(`Unterminated string ${value}`, position.line, position.column);
+    }
+    return { kind: 'literal', value: value.slice(1, -1).replace(/\\(["'\\])/g, '$1') };
+  }
+  if (/^-?\d+(\.\d+)?$/.test(value)) return { kind: 'literal', value: Number(value) };
+  if (value === 'true') return { kind: 'literal', value: true };
+  if (value === 'false') return { kind: 'literal', value: false };
+  if (value === 'null') return { kind: 'literal', value: null };
+
+  // Bracket indexes are accepted as dotted segments: items[0].name -> items.0.name
+  const normalized = value.replace(/\[(\d+)\]/g, '.$1');
+  if (!PATH_REGEX.test(normalized)) {
+    throw new TemplateError(`Invalid expression "${value}"`, position.line, position.column);
+  }
+
+  return { kind: 'path', path: normalized.split('.'), source: value };
+}
+
+function parseOutput(source: string, position: Position): OutputExpression {
+  const [operandSource, ...filterSources] = splitOutsideQuotes(source, '|');
+  const operand = parseOperand(operandSource, position);
+
+  const filters = filterSources.map((filterSource): Filter => {
+    const [name, ...rest] = splitOutsideQuotes(filterSource.trim(), ':');
+    const filterName = name.trim();
+    if (!FILTERS[filterName]) {
+      throw new TemplateError(`Unknown filter "${filterName}"`, position.line, position.column);
+    }
+    const argSource = rest.join(':');
+    const args = argSource.trim()
+      ? splitOutsideQuotes(argSource, ',').map(arg => parseOperand(arg, position))
+      : [];
+    return { name: filterName, args };
+  });
+
+  return { operand, filters };
+}
+
+const COMPARISON_REGEX = /^(.+?)\s*(==|!=|>=|<=|>|<)\s*(.+)$/;
+
+function parseCondition(source: string, position: Position): Condition {
+  const trimmed = source.trim();
+
+  const orParts = splitOnKeyword(trimmed, 'or');
+  if (orParts.length > 1) {
+    return orParts
+      .map(part => parseCondition(part, position))
+      .reduce((left, right) => ({ kind: 'or', left, right }));
+  }
+
+  const andParts = splitOnKeyword(trimmed, 'and');
+  if (andParts.length > 1) {
+    return andParts
+      .map(part => parseCondition(part, position))
+      .reduce((left, right) => ({ kind: 'and', left, right }));
+  }
+
+  if (trimmed.startsWith('!') && !trimmed.startsWith('!=')) {
+    return { kind: 'not', operand: parseCondition(trimmed.slice(1), position) };
+  }
+  if (/^not\s+/i.test(trimmed)) {
+    return { kind: 'not', operand: parseCondition(trimmed.replace(/^not\s+/i, ''), position) };
+  }
+
+  // Only treat as comparison when the operator is outside quotes
+  const unquoted = trimmed.replace(/(["'])(?:\\.|(?!\1).)*\1/g, (m) => '_'.repeat(m.length));
+  const match = unquoted.match(COMPARISON_REGEX);
+  if (match) {
+    const opIndex = match[1].length + unquoted.slice(match[1].length).indexOf(match[2]);
+    return {
+      kind: 'compare',
+      left: parseOperand(trimmed.slice(0, opIndex), position),
+      op: match[2],
+      right: parseOperand(trimmed.slice(opIndex + match[2].length), position),
+    };
+  }
+
+  return { kind: 'truthy', operand: parseOperand(trimmed, position) };
+}
+
+interface Frame {
+  kind: 'root' | 'if' | 'unless' | 'each';
+  position: Position;
+  node?: Extract<Node, { type: 'if' | 'each' }>;
+  // Where new nodes are appended (the current branch body)
+  target: Node[];
+  sawElse: boolean;
+}
+
+/**
+ * Parse template source into an AST
+ * Throws TemplateError with line/column on syntax errors
+ */
+export function parseTemplate(source: string): Node[] {
+  const root: Node[] = [];
+  const stack: Frame[] = [{ kind: 'root', position: { line: 1, column: 1 }, target: root, sawElse: false }];
+
+  // Track line/column incrementally
+  let line = 1;
+  let lastNewline = -1;
+  let scanned = 0;
+  const positionAt = (index: number): Position => {
+    for (; scanned < index; scanned++) {
+      if (source[scanned] === '\n') {
+        line++;
+        lastNewline = scanned;
+      }
+    }
+    return { line, column: index - lastNewline };
+  };
+
+  let cursor = 0;
+  while (cursor < source.length) {
+    const open = source.indexOf('{{', cursor);
+    const frame = stack[stack.length - 1];
+
+    if (open === -1) {
+      frame.target.push({ type: 'text', value: source.slice(cursor) });
+      break;
+    }
+
+    if (open > cursor) {
+      frame.target.push({ type: 'text', value: source.slice(cursor, open) });
+    }
+
+    const position = positionAt(open);
+    const triple = source.startsWith('{{{', open);
+    const closeToken = triple ? '}}}' : '}}';
+    const close = source.indexOf(closeToken, open + closeToken.length);
+    if (close === -1) {
+      throw new TemplateError(`Unclosed tag, expected "${closeToken}"`, position.line, position.column);
+    }
+
+    const content = source.slice(open + closeToken.length, close).trim();
+    cursor = close + closeToken.length;
+
+    if (triple) {
+      frame.target.push({ type: 'output', expression: parseOutput(content, position), raw: true, position });
+      continue;
+    }
+
+    // Comment
+    if (content.startsWith('!')) continue;
+
+    // Block open
+    if (content.startsWith('#')) {
+      const [, keyword = '', rest = ''] = content.match(/^#(\w+)\s*([\s\S]*)$/) || [];
+
+      if (keyword === 'if' || keyword === 'unless') {
+        let condition = parseCondition(rest, position);
+        if (keyword === 'unless') condition = { kind: 'not', operand: condition };
+        const body: Node[] = [];
+        const node: Node = { type: 'if', branches: [{ condition, body }], elseBody: [] };
+        frame.target.push(node);
+        stack.push({ kind: keyword, position, node, target: body, sawElse: false });
+        continue;
+      }
+
+      if (keyword === 'each') {
+        const aliasMatch = rest.match(/^(.+?)\s+as\s+([A-Za-z_]\w*)$/);
+        const operand = parseOperand(aliasMatch ? aliasMatch[1] : rest, position);
+        const body: Node[] = [];
+        const node: Node = { type: 'each', operand, alias: aliasMatch?.[2], body, elseBody: [] };
+        frame.target.push(node);
+        stack.push({ kind: 'each', position, node, target: body, sawElse: false });
+        continue;
+      }
+
+      throw new TemplateError(`Unknown block "#${keyword}"`, position.line, position.column);
+    }
+
+    // Else / else if
+    if (content === 'else' || content.startsWith('else ')) {
+      const node = frame.node;
+      if (!node || frame.sawElse) {
+        throw new TemplateError('Unexpected {{else}}', position.line, position.column);
+      }
+
+      const elseIf = content.match(/^else\s+if\s+([\s\S]+)$/);
+      if (elseIf) {
+        if (node.type !== 'if') {
+          throw new TemplateError('{{else if}} is only allowed inside {{#if}}', position.line, position.column);
+        }
+        const body: Node[] = [];
+        node.branches.push({ condition: parseCondition(elseIf[1], position), body });
+        frame.target = body;
+        continue;
+      }
+
+      if (content !== 'else') {
+        throw new TemplateError(`Invalid tag "${content}"`, position.line, position.column);
+      }
+
+      frame.target = node.elseBody;
+      frame.sawElse = true;
+      continue;
+    }
+
+    // Block close
+    if (content.startsWith('/')) {
+      const keyword = content.slice(1).trim();
+      if (frame.kind === 'root') {
+        throw new TemplateError(`Unexpected closing tag {{/${keyword}}}`, position.line, position.column);
+      }
+      if (keyword !== frame.kind) {
+        throw new TemplateError(
+          `Expected {{/${frame.kind}}} but found {{/${keyword}}}`,
+          position.line,
+          position.column
+        );
+      }
+      stack.pop();
+      continue;
+    }
+
+    frame.target.push({ type: 'output', expression: parseOutput(content, position), raw: false, position });
+  }
+
+  if (stack.length > 1) {
+    const unclosed = stack[stack.length - 1];
+    throw new TemplateError(
+      `Unclosed block {{#${unclosed.kind}}}`,
+      unclosed.position.line,
+      unclosed.position.column
+    );
+  }
+
+  return root;
+}
+
+// ============================================
+// Renderer
+// ============================================
+
+interface RenderState {
+  scopes: Record<string, unknown>[];
+  escape: boolean;
+  missing: Set<string>;
+}
+
+function resolvePath(path: string[], scopes: Record<string, unknown>[]): unknown {
+  const [head, ...rest] = path;
+  let value: unknown = undefined;
+
+  for (let i = scopes.length - 1; i >= 0; i--) {
+    if (Object.prototype.hasOwnProperty.call(scopes[i], head)) {
+      value = scopes[i][head];
+      break;
+    }
+  }
+
+  for (const segment of rest) {
+    if (value === null || value === undefined || typeof value !== 'object') return undefined;
+    value = Object.prototype.hasOwnProperty.call(value, segment)
+      ? (value as Record<string, unknown>)[segment]
+      : undefined;
+  }
+
+  return value;
+}
+
+function evaluateOperand(operand: Operand, state: RenderState): unknown {
+  return operand.kind === 'literal' ? operand.value : resolvePath(operand.path, state.scopes);
+}
+
+function compare(left: unknown, op: string, right: unknown): boolean {
+  // Compare numerically when both sides look like numbers
+  const l = toNumber(left);
+  const r = toNumber(right);
+  const [a, b] = l !== null && r !== null ? [l, r] : [stringify(left), stringify(right)];
+
+  switch (op) {
+    case '==': return a === b;
+    case '!=': return a !== b;
+    case '>': return a > b;
+    case '<': return a < b;
+    case '>=': return a >= b;
+    case '<=': return a <= b;
+    default: return false;
+  }
+}
+
+function evaluateCondition(condition: Condition, state: RenderState): boolean {
+  switch (condition.kind) {
+    case 'or': return evaluateCondition(condition.left, state) || evaluateCondition(condition.right, state);
+    case 'and': return evaluateCondition(condition.left, state) && evaluateCondition(condition.right, state);
+    case 'not': return !evaluateCondition(condition.operand, state);
+    case 'compare':
+      return compare(evaluateOperand(condition.left, state), condition.op, evaluateOperand(condition.right, state));
+    case 'truthy': return isTruthy(evaluateOperand(condition.operand, state));
+  }
+}
+
+function renderNodes(nodes: Node[], state: RenderState): string {
+  let output = '';
+
+  for (const node of nodes) {
+    switch (node.type) {
+      case 'text':
+        output += node.value;
+        break;
+
+      case 'output': {
+        const { operand, filters } = node.expression;
+        let value = evaluateOperand(operand, state);
+
+        if (value === undefined && operand.kind === 'path' && !filters.some(f => f.name === 'default')) {
+          state.missing.add(operand.source);
+        }
+
+        let raw = node.raw;
+        for (const filter of filters) {
+          const args = filter.args.map(arg => evaluateOperand(arg, state));
+          value = FILTERS[filter.name](value, ...args);
+          if (filter.name === 'raw') raw = true;
+          if (filter.name === 'escape') raw = false;
+        }
+
+        const text = stringify(value);
+        output += state.escape && !raw ? escapeHtml(text) : text;
+        break;
+      }
+
+      case 'if': {
+        const branch = node.branches.find(b => evaluateCondition(b.condition, state));
+        output += renderNodes(branch ? branch.body : node.elseBody, state);
+        break;
+      }
+
+      case 'each': {
+        const collection = evaluateOperand(node.operand, state);
+        const entries: [string | number, unknown][] = Array.isArray(collection)
+          ? collection.map((item, index) => [index, item])
+          : collection && typeof collection === 'object'
+            ? Object.entries(collection)
+            : [];
+
+        if (entries.length === 0) {
+          output += renderNodes(node.elseBody, state);
+          break;
+        }
+
+        entries.forEach(([key, item], index) => {
+          const loopVars = {
+            '@index': index,
+            '@key': key,
+            '@first': index === 0,
+            '@last': index === entries.length - 1,
+          };
+          const scope: Record<string, unknown> = node.alias
+            ? { [node.alias]: item, ...loopVars }
+            : {
+                ...(item && typeof item === 'object' && !Array.isArray(item) ? item : {}),
+                this: item,
+                ...loopVars,
+              };
+
+          state.scopes.push(scope);
+          output += renderNodes(node.body, state);
+          state.scopes.pop();
+        });
+        break;
+      }
+    }
+  }
+
+  return output;
+}
+
+/**
+ * Render a template string against a context
+ *
+ * @param source - Template source
+ * @param context - Variables (nested objects and arrays allowed)
+ * @param options.escape - HTML-escape output (true for HTML bodies, false for subject/text)
+ * @returns Rendered output and the variable paths that resolved to nothing
+ */
+export function renderTemplateString(
+  source: string,
+  context: TemplateContext,
+  options: { escape: boolean }
+): { output: string; missing: string[] } {
+  const nodes = parseTemplate(source);
+  const state: RenderState = { scopes: [context], escape: options.escape, missing: new Set() };
+  const output = renderNodes(nodes, state);
+  return { output, missing: [...state.missing] };
+}
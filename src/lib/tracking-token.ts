@@ -0,0 +1,56 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+import { config } from '../config';
+
+/**
+ * What a tracking token was issued for: the open pixel, or one tracked link
+ * (a click token only works with the link it was issued for)
+ */
+export type TrackingTokenScope = { kind: 'open' } | { kind: 'click'; linkId: string };
+
+function sign(secret: string, scope: TrackingTokenScope, recipientId: string, expiry: string): string {
+  const target = scope.kind === 'click' ? `c:${scope.linkId}` : 'o';
+  return createHmac('sha256', secret).update(`${target}:${recipientId}:${expiry}`).digest('base64url');
+}
+
+/**
+ * Create a signed tracking token: recipientId.expiry.keyId.signature
+ * expiry is a unix timestamp in base 36 (0 when links don't expire) and
+ * keyId names the signing key, so keys can be rotated
+ */
+export function createTrackingToken(scope: TrackingTokenScope, recipientId: string): string {
+  const [key] = config.tracking.signingKeys;
+  const expiresAt = config.tracking.linkTtlDays > 0
+    ? Math.floor(Date.now() / 1000) + config.tracking.linkTtlDays * 24 * 60 * 60
+    : 0;
+  const expiry = expiresAt.toString(36);
+  return `${recipientId}.${expiry}.${key.id}.${sign(key.secret, scope, recipientId, expiry)}`;
+}
+
+/**
+ * Check whether a token is signed (links sent before signing carry the bare recipient ID)
+ */
+export function isSignedTrackingToken(token: string): boolean {
+  return token.includes('.');
+}
+
+/**
+ * Verify a signed tracking token and return the recipient tracking ID it carries
+ * Returns null when the token is malformed, signed with an unknown key, doesn't
+ * match the signature or has expired
+ */
+export function verifyTrackingToken(token: string, scope: TrackingTokenScope): string | null {
+  const [recipientId, expiry, keyId, signature, ...rest] = token.split('.');
+  if (!recipientId || !expiry || !keyId || !signature || rest.length > 0) return null;
+
+  const key = config.tracking.signingKeys.find(k => k.id === keyId);
+  if (!key) return null;
+
+  const expected = Buffer.from(sign(key.secret, scope, recipientId, expiry));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) return null;
+
+  const expiresAt = parseInt(expiry, 36);
+  if (isNaN(expiresAt) || (expiresAt > 0 && expiresAt * 1000 < Date.now())) return null;
+
+  return recipientId;
+}
@@ -1,4 +1,5 @@
 import { nanoid } from 'nanoid';
+import { createTrackingToken } from './tracking-token';
 
 // 1x1 transparent GIF in base64
 export const TRANSPARENT_GIF_BASE64 = 'R0lGODlhAQABAIAAAAAAAP///yH5BAEAAAAALAAAAAABAAEAAAIBRAA7';
@@ -11,18 +12,118 @@ export function generateTrackingId(): string {
   return nanoid(24);
 }
 
+/**
+ * Base URL for a domain's tracking links
+ * Uses the domain's verified tracking host (CNAME) when it has one, with the
+ * scheme of the global tracking URL, and falls back to the global URL
+ */
+export function getTrackingBaseUrl(globalBaseUrl: string, trackingHost?: string | null): string {
+  if (!trackingHost) return globalBaseUrl;
+  return `${new URL(globalBaseUrl).protocol}//${trackingHost}`;
+}
+
+/**
+ * Check whether a request arrived on a host that may serve a domain's tracking links:
+ * the global tracking host, or the domain's own verified tracking host
+ */
+export function isAllowedTrackingHost(
+  requestHost: string | null,
+  globalBaseUrl: string,
+  trackingHost?: string | null
+): boolean {
+  if (!requestHost) return false;
+  const host = stripPort(requestHost);
+  return host === stripPort(new URL(globalBaseUrl).host) || (!!trackingHost && host === stripPort(trackingHost));
+}
+
+function stripPort(host: string): string {
+  return host.trim().toLowerCase().replace(/:\d+$/, '');
+}
+
+/**
+ * Stands in for the recipient tracking ID in tracked HTML
+ * The stored message is shared by all of its recipients; the worker swaps in
+ * each recipient's ID when it sends their copy
+ */
+export const TRACKING_RECIPIENT_PLACEHOLDER = '__tracking_recipient__';
+
+const OPEN_PLACEHOLDER_PATH = `/t/o/${TRACKING_RECIPIENT_PLACEHOLDER}`;
+const CLICK_PLACEHOLDER_REGEX = new RegExp(`/t/c/([A-Za-z0-9_-]+)/${TRACKING_RECIPIENT_PLACEHOLDER}`, 'g');
+
+/**
+ * Fill in one recipient's copy: each tracking URL gets a signed token
+ * carrying the recipient tracking ID
+ */
+export function personalizeTracking(content: string | undefined, recipientId: string): string | undefined {
+  return content
+    ?.replace(CLICK_PLACEHOLDER_REGEX, (_, linkId: string) =>
+      `/t/c/${linkId}/${createTrackingToken({ kind: 'click', linkId }, recipientId)}`
+    )
+    .replaceAll(OPEN_PLACEHOLDER_PATH, `/t/o/${createTrackingToken({ kind: 'open' }, recipientId)}`);
+}
+
+const TRACKED_LINK_REGEX = new RegExp(`[^\\s"'<>()]*/t/c/([A-Za-z0-9_-]+)/${TRACKING_RECIPIENT_PLACEHOLDER}`, 'g');
+const OPEN_PIXEL_REGEX = new RegExp(`<img src="[^"]*${OPEN_PLACEHOLDER_PATH}"[^>]*>`, 'g');
+
+/**
+ * Undo tracking on stored (not yet personalized) content: tracked links go back
+ * to their original URLs and the open pixel is removed
+ * 
+ * @param originalUrls - Map of link tracking ID to original URL
+ */
+export function removeEmailTracking(
+  content: string | undefined,
+  originalUrls: Map<string, string>
+): string | undefined {
+  return content
+    ?.replace(TRACKED_LINK_REGEX, (match, linkId: string) => originalUrls.get(linkId) ?? match)
+    .replace(OPEN_PIXEL_REGEX, '');
+}
+
+/**
+ * Check which kinds of tracking were applied to stored content
+ */
+export function getAppliedTracking(html: string | undefined): { opens: boolean; clicks: boolean } {
+  return {
+    opens: !!html?.includes(OPEN_PLACEHOLDER_PATH),
+    clicks: !!html?.match(TRACKED_LINK_REGEX),
+  };
+}
+
+/**
+ * Schemes tracked links may redirect to
+ */
+const ALLOWED_REDIRECT_PROTOCOLS = ['http:', 'https:'];
+
+/**
+ * Check that a URL is absolute and uses an allowed scheme, so a tracking link
+ * can't redirect to javascript:, data: or similar
+ */
+export function isAllowedRedirectUrl(url: string): boolean {
+  try {
+    return ALLOWED_REDIRECT_PROTOCOLS.includes(new URL(url).protocol);
+  } catch {
+    return false;
+  }
+}
+
 /**
  * Build tracking URL for click tracking
+ * The link ID identifies the URL, the recipient token who clicked it
  */
-export function buildClickTrackingUrl(baseUrl: string, trackingId: string): string {
-  return `${baseUrl}/t/c/${trackingId}`;
+export function buildClickTrackingUrl(
+  baseUrl: string,
+  trackingId: string,
+  recipientId: string = TRACKING_RECIPIENT_PLACEHOLDER
+): string {
+  return `${baseUrl}/t/c/${trackingId}/${recipientId}`;
 }
 
 /**
- * Build tracking URL for open tracking (1x1 pixel)
+ * Build tracking URL for open tracking (1x1 pixel), keyed by the recipient token
  */
-export function buildOpenTrackingUrl(baseUrl: string, trackingId: string): string {
-  return `${baseUrl}/t/o/${trackingId}`;
+export function buildOpenTrackingUrl(baseUrl: string, recipientId: string = TRACKING_RECIPIENT_PLACEHOLDER): string {
+  return `${baseUrl}/t/o/${recipientId}`;
 }
 
 /**
@@ -47,7 +148,16 @@ const EXCLUDED_DOMAINS = [
  */
 function shouldExcludeUrl(url: string): boolean {
   const lowerUrl = url.toLowerCase();
-  return EXCLUDED_DOMAINS.some(domain => lowerUrl.includes(domain));
+  return EXCLUDED_DOMAINS.some(domain => lowerUrl.includes(domain)) || !isAllowedRedirectUrl(url);
+}
+
+/**
+ * Links marked data-track="false" (e.g. password reset links) are never wrapped
+ */
+const NO_TRACK_REGEX = /\bdata-track\s*=\s*["']?false\b/i;
+
+function isTrackingDisabled(attributes: string): boolean {
+  return NO_TRACK_REGEX.test(attributes);
 }
 
 /**
@@ -64,8 +174,8 @@ export function extractLinksFromHtml(html: string): { originalUrl: string; posit
   while ((match = LINK_REGEX.exec(html)) !== null) {
     const originalUrl = match[2];
     
-    // Skip excluded URLs
-    if (shouldExcludeUrl(originalUrl)) {
+    // Skip excluded URLs and links that opted out
+    if (shouldExcludeUrl(originalUrl) || isTrackingDisabled(match[1] + match[3])) {
       continue;
     }
     
@@ -99,8 +209,8 @@ export function wrapLinksForTracking(
   linkMap: Map<string, string>
 ): string {
   return html.replace(LINK_REGEX, (match, before, url, after) => {
-    // Skip excluded URLs
-    if (shouldExcludeUrl(url)) {
+    // Skip excluded URLs and links that opted out
+    if (shouldExcludeUrl(url) || isTrackingDisabled(before + after)) {
       return match;
     }
     
@@ -135,20 +245,18 @@ export function injectOpenTracker(html: string, pixelUrl: string): string {
 
 /**
  * Generate tracking data for an email
- * Creates tracking IDs for open tracking and all links
+ * Creates tracking IDs for all links; URLs contain the recipient placeholder
  */
 export function generateTrackingData(
   baseUrl: string,
   html: string
 ): {
-  openTrackingId: string;
   openTrackingUrl: string;
   links: LinkTrackingData[];
   linkMap: Map<string, string>;
 } {
-  // Generate open tracking
-  const openTrackingId = generateTrackingId();
-  const openTrackingUrl = buildOpenTrackingUrl(baseUrl, openTrackingId);
+  // Open tracking is per recipient
+  const openTrackingUrl = buildOpenTrackingUrl(baseUrl);
   
   // Extract and process links
   const extractedLinks = extractLinksFromHtml(html);
@@ -175,7 +283,6 @@ export function generateTrackingData(
   }
   
   return {
-    openTrackingId,
     openTrackingUrl,
     links,
     linkMap
@@ -183,28 +290,32 @@ export function generateTrackingData(
 }
 
 /**
- * Apply all tracking to HTML content
+ * Apply tracking to HTML content
  * Returns modified HTML and tracking data for database storage
+ * (links is empty when click tracking is off). The HTML contains
+ * TRACKING_RECIPIENT_PLACEHOLDER, see personalizeTracking
  */
 export function applyEmailTracking(
   baseUrl: string,
-  html: string
+  html: string,
+  options: { opens?: boolean; clicks?: boolean } = {}
 ): {
   modifiedHtml: string;
-  openTrackingId: string;
   links: LinkTrackingData[];
 } {
+  const { opens = true, clicks = true } = options;
   const trackingData = generateTrackingData(baseUrl, html);
   
   // Apply link tracking
-  let modifiedHtml = wrapLinksForTracking(html, trackingData.linkMap);
+  let modifiedHtml = clicks ? wrapLinksForTracking(html, trackingData.linkMap) : html;
   
   // Apply open tracking
-  modifiedHtml = injectOpenTracker(modifiedHtml, trackingData.openTrackingUrl);
+  if (opens) {
+    modifiedHtml = injectOpenTracker(modifiedHtml, trackingData.openTrackingUrl);
+  }
   
   return {
     modifiedHtml,
-    openTrackingId: trackingData.openTrackingId,
-    links: trackingData.links
+    links: clicks ? trackingData.links : []
   };
 }
@@ -0,0 +1,56 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+import { config } from '../config';
+
+/**
+ * Identifies the recipient (and the message they received) in an unsubscribe link
+ */
+export interface UnsubscribePayload {
+  userId: string;
+  domainId: string;
+  email: string;
+  messageId: string;
+}
+
+function sign(data: string): string {
+  return createHmac('sha256', config.unsubscribe.secret).update(data).digest('base64url');
+}
+
+/**
+ * Create a signed unsubscribe token: base64url(payload).signature
+ */
+export function createUnsubscribeToken(payload: UnsubscribePayload): string {
+  const data = Buffer.from(
+    JSON.stringify({ u: payload.userId, d: payload.domainId, e: payload.email, m: payload.messageId })
+  ).toString('base64url');
+  return `${data}.${sign(data)}`;
+}
+
+/**
+ * Verify an unsubscribe token and return its payload
+ * Returns null when the token is malformed or the signature doesn't match
+ */
+export function verifyUnsubscribeToken(token: string): UnsubscribePayload | null {
+  const [data, signature, ...rest] = token.split('.');
+  if (!data || !signature || rest.length > 0) return null;
+
+  const expected = Buffer.from(sign(data));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) return null;
+
+  try {
+    const { u, d, e, m } = JSON.parse(Buffer.from(data, 'base64url').toString('utf8'));
+    if (typeof u !== 'string' || typeof d !== 'string' || typeof e !== 'string' || typeof m !== 'string') {
+      return null;
+    }
+    return { userId: u, domainId: d, email: e, messageId: m };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Build the public unsubscribe URL for a token
+ */
+export function buildUnsubscribeUrl(token: string): string {
+  return `${config.tracking.baseUrl}/u/${token}`;
+}
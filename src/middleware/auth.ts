@@ -15,6 +15,11 @@ export interface AuthContext {
     id: string;
     name: string;
     userId: string;
+    // Verified custom tracking host (CNAME), null = global tracking host
+    trackingHost: string | null;
+    // Tracking defaults for sends that don't set `tracking`
+    trackOpens: boolean;
+    trackClicks: boolean;
   };
   user: {
     id: string;
@@ -135,6 +140,9 @@ export const authMiddleware = new Elysia({ name: 'auth' })
           id: apiKeyRecord.domain.id,
           name: apiKeyRecord.domain.name,
           userId: apiKeyRecord.domain.userId,
+          trackingHost: apiKeyRecord.domain.cnameVerified ? apiKeyRecord.domain.cnameHost : null,
+          trackOpens: apiKeyRecord.domain.trackOpens,
+          trackClicks: apiKeyRecord.domain.trackClicks,
         },
         user: {
           id: apiKeyRecord.user.id,
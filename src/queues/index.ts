@@ -1,7 +1,7 @@
 import { Queue, QueueEvents } from 'bullmq';
 import IORedis from 'ioredis';
 import { config } from '../config';
-import { QUEUE_NAMES, type EmailJobData } from './types';
+import { QUEUE_NAMES, MESSAGE_PRIORITY, type EmailJobData } from './types';
 
 // Redis connection for BullMQ
 export const redisConnection = new IORedis(config.redis.url, {
@@ -35,6 +35,7 @@ export const emailQueueEvents = new QueueEvents(QUEUE_NAMES.EMAIL_SEND, {
 
 /**
  * Add email job to queue
+ * Priority defaults to the one for the job's message type
  */
 export async function addEmailJob(data: EmailJobData, options?: { delay?: number; priority?: number }) {
   const job = await emailQueue.add(
@@ -42,13 +43,29 @@ export async function addEmailJob(data: EmailJobData, options?: { delay?: number
     data,
     {
       delay: options?.delay,
-      priority: options?.priority,
+      priority: options?.priority ?? MESSAGE_PRIORITY[data.messageType],
       jobId: data.jobId, // Use our generated ID for deduplication
     }
   );
   return job;
 }
 
+/**
+ * Get every address a job delivers to (to, cc and bcc)
+ */
+export function getJobRecipients(data: EmailJobData): string[] {
+  return [...data.to, ...(data.cc || []), ...(data.bcc || [])];
+}
+
+/**
+ * Get the recipients that haven't been sent their copy yet
+ * (per-recipient sends record progress in deliveredTo)
+ */
+export function getUndeliveredRecipients(data: EmailJobData): string[] {
+  const delivered = new Set(data.deliveredTo ?? []);
+  return getJobRecipients(data).filter((recipient) => !delivered.has(recipient));
+}
+
 /**
  * Get queue stats
  */
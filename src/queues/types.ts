@@ -1,5 +1,15 @@
 // Job type definitions for BullMQ queues
 
+// Transactional mail (receipts, password resets) vs bulk/marketing mail
+export type MessageType = 'transactional' | 'marketing';
+
+// BullMQ job priority per message type (lower runs first), so transactional
+// mail never waits behind a newsletter
+export const MESSAGE_PRIORITY: Record<MessageType, number> = {
+  transactional: 1,
+  marketing: 10,
+};
+
 export interface EmailJobData {
   // Job metadata
   jobId: string;
@@ -15,21 +25,45 @@ export interface EmailJobData {
     address: string;
   };
   to: string[];
+  cc?: string[];
+  bcc?: string[]; // Envelope only - never written to headers
   subject: string;
   html?: string;
   text?: string;
   replyTo?: string;
   headers?: Record<string, string>;
+  attachments?: EmailAttachmentRef[];
 
   // Template info (for tracking)
   templateId?: string;
   templateName?: string;
+  templateVersion?: number;
+  locale?: string;
+
+  // Only marketing mail gets List-Unsubscribe headers
+  messageType: MessageType;
+
+  // Tracked messages: recipient address -> recipient tracking ID. html/text contain
+  // a placeholder for the ID, so every recipient is sent their own copy
+  // (as is marketing mail, for its per-recipient List-Unsubscribe headers)
+  trackingRecipients?: Record<string, string>;
+  // Recipients whose copy was already accepted (skipped when the job is retried)
+  deliveredTo?: string[];
 
   // Timestamps
   createdAt: string;
   scheduledAt?: string;
 }
 
+// Reference to an attachment stored in the database (content is loaded by the worker)
+export interface EmailAttachmentRef {
+  id: string;
+  filename: string;
+  contentType: string;
+  contentId?: string;
+  size: number;
+}
+
 export interface EmailJobResult {
   success: boolean;
   messageId: string;
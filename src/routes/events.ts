@@ -1,10 +1,15 @@
 import { Elysia, t } from 'elysia';
-import { and, eq, gte, lte, desc, like, sql } from 'drizzle-orm';
+import { and, eq, gte, lte, asc, desc, like, sql, arrayContains } from 'drizzle-orm';
 import { db, emailEvent } from '../db';
 import { authMiddleware, type AuthContext } from '../middleware/auth';
 
 // Valid event types
-const EVENT_TYPES = ['queued', 'sent', 'delivered', 'opened', 'clicked', 'bounced', 'complained', 'unsubscribed', 'failed'] as const;
+const EVENT_TYPES = ['scheduled', 'queued', 'cancelled', 'sent', 'delivered', 'opened', 'clicked', 'bounced', 'complained', 'unsubscribed', 'failed'] as const;
+
+// Parse a comma-separated tag filter (events must carry every tag)
+function parseTagFilter(tag: string | undefined): string[] {
+  return (tag ?? '').split(',').map(t => t.trim()).filter(Boolean);
+}
 
 // Events route plugin
 export const eventsRoute = new Elysia({ name: 'events-route' })
@@ -24,6 +29,10 @@ export const eventsRoute = new Elysia({ name: 'events-route' })
         eventType,
         recipientEmail,
         messageId,
+        templateId,
+        templateVersion,
+        tag,
+        metadata,
         startDate,
         endDate,
       } = query;
@@ -48,6 +57,31 @@ export const eventsRoute = new Elysia({ name: 'events-route' })
         conditions.push(eq(emailEvent.messageId, messageId));
       }
 
+      if (templateId) {
+        conditions.push(eq(emailEvent.templateId, templateId));
+      }
+
+      if (templateVersion && !isNaN(parseInt(templateVersion))) {
+        conditions.push(eq(emailEvent.templateVersion, parseInt(templateVersion)));
+      }
+
+      const tags = parseTagFilter(tag);
+      if (tags.length > 0) {
+        conditions.push(arrayContains(emailEvent.tags, tags));
+      }
+
+      // metadata=key:value matches the metadata given to /send
+      if (metadata) {
+        const separator = metadata.indexOf(':');
+        if (separator <= 0) {
+          set.status = 400;
+          return { error: 'Bad Request', message: 'metadata filter must look like key:value' };
+        }
+        const key = metadata.slice(0, separator);
+        const value = metadata.slice(separator + 1);
+        conditions.push(sql`(${emailEvent.customMetadata}::jsonb ->> ${key}) = ${value}`);
+      }
+
       if (startDate) {
         const start = new Date(startDate);
         if (!isNaN(start.getTime())) {
@@ -94,7 +128,11 @@ export const eventsRoute = new Elysia({ name: 'events-route' })
           eventType: event.eventType,
           recipientEmail: event.recipientEmail,
           subject: event.subject,
-          template: event.template ? { id: event.template.id, name: event.template.name } : null,
+          template: event.template
+            ? { id: event.template.id, name: event.template.name, version: event.templateVersion, locale: event.locale }
+            : null,
+          tags: event.tags ?? [],
+          customMetadata: event.customMetadata ? JSON.parse(event.customMetadata) : null,
           metadata: event.metadata ? JSON.parse(event.metadata) : null,
           ipAddress: event.ipAddress,
           userAgent: event.userAgent,
@@ -117,12 +155,16 @@ export const eventsRoute = new Elysia({ name: 'events-route' })
         eventType: t.Optional(t.String()),
         recipientEmail: t.Optional(t.String()),
         messageId: t.Optional(t.String()),
+        templateId: t.Optional(t.String()),
+        templateVersion: t.Optional(t.String()),
+        tag: t.Optional(t.String()),
+        metadata: t.Optional(t.String()),
         startDate: t.Optional(t.String()),
         endDate: t.Optional(t.String()),
       }),
       detail: {
         summary: 'List Email Events',
-        description: 'Query email events with filtering, pagination, and date range support.',
+        description: 'Query email events with filtering, pagination, and date range support. Filter by templateId and templateVersion to find messages rendered from a specific template version. Filter by tag (comma-separated, all must match) or by metadata=key:value to find messages by what was sent with them.',
         tags: ['Events'],
       },
     }
@@ -179,11 +221,22 @@ export const eventsRoute = new Elysia({ name: 'events-route' })
 
       // Get first event for summary info
       const firstEvent = events[0];
+      // Tracking events don't carry the template, so take it from the send events
+      const templateEvent = events.find(e => e.template) ?? firstEvent;
 
       return {
         messageId,
         subject: firstEvent.subject,
-        template: firstEvent.template ? { id: firstEvent.template.id, name: firstEvent.template.name } : null,
+        template: templateEvent.template
+          ? {
+              id: templateEvent.template.id,
+              name: templateEvent.template.name,
+              version: templateEvent.templateVersion,
+              locale: templateEvent.locale,
+            }
+          : null,
+        tags: firstEvent.tags ?? [],
+        customMetadata: firstEvent.customMetadata ? JSON.parse(firstEvent.customMetadata) : null,
         recipients: Object.keys(eventsByRecipient).length,
         events: eventsByRecipient,
         totalEvents: events.length,
@@ -209,11 +262,16 @@ export const eventsRoute = new Elysia({ name: 'events-route' })
         return { error: 'Unauthorized', message: 'Authentication required' };
       }
 
-      const { startDate, endDate } = query;
+      const { startDate, endDate, tag, groupBy } = query;
 
-      // Build date conditions
+      // Build date and tag conditions
       const conditions = [eq(emailEvent.userId, auth.user.id)];
 
+      const tags = parseTagFilter(tag);
+      if (tags.length > 0) {
+        conditions.push(arrayContains(emailEvent.tags, tags));
+      }
+
       if (startDate) {
         const start = new Date(startDate);
         if (!isNaN(start.getTime())) {
@@ -253,9 +311,28 @@ export const eventsRoute = new Elysia({ name: 'events-route' })
       const clicked = statsByType['clicked'] ?? 0;
       const bounced = statsByType['bounced'] ?? 0;
 
+      // Counts by tag and event type (an event with several tags counts once per tag)
+      let byTag: Record<string, { total: number; byType: Record<string, number> }> | undefined;
+      if (groupBy === 'tag') {
+        const tagStats = await db.execute<{ tag: string; event_type: string; count: string }>(sql`
+          select tag, ${emailEvent.eventType} as event_type, count(*) as count
+          from ${emailEvent}, unnest(${emailEvent.tags}) as tag
+          where ${and(...conditions)}
+          group by tag, ${emailEvent.eventType}
+        `);
+
+        byTag = {};
+        for (const stat of tagStats) {
+          const group = (byTag[stat.tag] ??= { total: 0, byType: {} });
+          group.byType[stat.event_type] = Number(stat.count);
+          group.total += Number(stat.count);
+        }
+      }
+
       return {
         total,
         byType: statsByType,
+        ...(byTag && { byTag }),
         rates: {
           deliveryRate: sent > 0 ? ((delivered / sent) * 100).toFixed(2) + '%' : '0%',
           openRate: delivered > 0 ? ((opened / delivered) * 100).toFixed(2) + '%' : '0%',
@@ -268,10 +345,12 @@ export const eventsRoute = new Elysia({ name: 'events-route' })
       query: t.Object({
         startDate: t.Optional(t.String()),
         endDate: t.Optional(t.String()),
+        tag: t.Optional(t.String()),
+        groupBy: t.Optional(t.Literal('tag')),
       }),
       detail: {
         summary: 'Get Event Statistics',
-        description: 'Get aggregated email event statistics with delivery, open, click, and bounce rates.',
+        description: 'Get aggregated email event statistics with delivery, open, click, and bounce rates. Filter by tag (comma-separated, all must match) and set groupBy=tag to also get counts per tag.',
         tags: ['Events'],
       },
     }
@@ -300,7 +379,7 @@ export const eventsRoute = new Elysia({ name: 'events-route' })
         // Generate event ID
         const eventId = `evt_${Date.now().toString(36)}${Math.random().toString(36).substr(2, 8)}`;
 
-        // Insert the event
+        // Insert the event (with the tags and metadata the message was sent with)
         await db.insert(emailEvent).values({
           id: eventId,
           userId: auth.user.id,
@@ -308,6 +387,7 @@ export const eventsRoute = new Elysia({ name: 'events-route' })
           eventType,
           recipientEmail: normalizedEmail,
           sendingDomain: auth.domain?.name || null,
+          ...(messageId && await getMessageLabels(auth.user.id, messageId)),
           metadata: metadata ? JSON.stringify(metadata) : null,
         });
 
@@ -387,8 +467,23 @@ export const eventsRoute = new Elysia({ name: 'events-route' })
     }
   );
 
-// Helper function to add to suppression list
-async function addToSuppressionInternal(
+// Tags and custom metadata a message was sent with, for events recorded after the send
+// (also used by the tracking and unsubscribe routes)
+export async function getMessageLabels(
+  userId: string,
+  messageId: string
+): Promise<{ tags: string[] | null; customMetadata: string | null }> {
+  const sendEvent = await db.query.emailEvent.findFirst({
+    where: and(eq(emailEvent.userId, userId), eq(emailEvent.messageId, messageId)),
+    orderBy: [asc(emailEvent.createdAt)],
+    columns: { tags: true, customMetadata: true },
+  });
+
+  return { tags: sendEvent?.tags ?? null, customMetadata: sendEvent?.customMetadata ?? null };
+}
+
+// Helper function to add to suppression list (also used by the unsubscribe route)
+export async function addToSuppressionInternal(
   userId: string,
   email: string,
   reason: string,
@@ -396,34 +491,6 @@ async function addToSuppressionInternal(
   domainId?: string,
   metadata?: Record<string, unknown>
 ): Promise<{ id: string; email: string; reason: string; alreadyExists: boolean }> {
-  const { emailSuppression } = await import('../db');
-  const { nanoid } = await import('nanoid');
-
-  const normalizedEmail = email.toLowerCase().trim();
-  
-  // Check if already exists
-  const existing = await db.query.emailSuppression.findFirst({
-    where: and(
-      eq(emailSuppression.userId, userId),
-      eq(emailSuppression.email, normalizedEmail)
-    )
-  });
-  
-  if (existing) {
-    return { id: existing.id, email: normalizedEmail, reason: existing.reason, alreadyExists: true };
-  }
-  
-  // Insert new suppression
-  const id = nanoid();
-  await db.insert(emailSuppression).values({
-    id,
-    userId,
-    domainId: domainId || null,
-    email: normalizedEmail,
-    reason,
-    sourceEventId: sourceEventId || null,
-    metadata: metadata ? JSON.stringify(metadata) : null,
-  });
-  
-  return { id, email: normalizedEmail, reason, alreadyExists: false };
+  const { upsertSuppression } = await import('./suppression');
+  return upsertSuppression(userId, email, reason as Parameters<typeof upsertSuppression>[2], sourceEventId, domainId, metadata);
 }
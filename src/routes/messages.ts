@@ -0,0 +1,702 @@
+import { Elysia, t } from 'elysia';
+import { and, eq, sql } from 'drizzle-orm';
+import { db, emailEvent, emailTemplate, emailTrackingLink, emailTrackingOpen, userBilling } from '../db';
+import { authMiddleware, type AuthContext } from '../middleware/auth';
+import { emailQueue, getJobRecipients, getUndeliveredRecipients } from '../queues';
+import { logActivity } from '../lib/activity';
+import { loadAttachments, extendAttachmentRetention, type ParsedAttachment } from '../lib/attachments';
+import { removeEmailTracking, getAppliedTracking } from '../lib/tracking';
+import { parseScheduledAt, queueEmail, getQuotaState, commitQuotaUsage } from './send';
+
+// Parse an event's JSON metadata, tolerating missing or invalid values
+function parseMetadata(metadata: string | null): Record<string, unknown> {
+  try {
+    return metadata ? JSON.parse(metadata) : {};
+  } catch {
+    return {};
+  }
+}
+
+// Find the BullMQ job backing a message, scoped to the authenticated user
+// The job ID is recorded in the metadata of the message's queued/scheduled events
+async function findMessageJob(userId: string, messageId: string) {
+  const events = await db.query.emailEvent.findMany({
+    where: and(
+      eq(emailEvent.userId, userId),
+      eq(emailEvent.messageId, messageId)
+    ),
+  });
+
+  if (events.length === 0) return null;
+
+  const jobId = events
+    .map((event) => parseMetadata(event.metadata).jobId)
+    .find((id): id is string => typeof id === 'string');
+
+  const job = jobId ? await emailQueue.getJob(jobId) : undefined;
+  if (!job || job.data.userId !== userId) {
+    return { events, job: null };
+  }
+
+  return { events, job };
+}
+
+// How far along a recipient is - the highest ranked event is its current status
+const STATUS_RANK = [
+  'scheduled',
+  'queued',
+  'failed',
+  'cancelled',
+  'sent',
+  'delivered',
+  'opened',
+  'clicked',
+  'unsubscribed',
+  'bounced',
+  'complained',
+];
+
+// Message status while its job is still in the queue
+function statusFromJobState(state: string, attemptsMade: number): string | null {
+  switch (state) {
+    case 'delayed':
+      // Failed attempts wait out their backoff as delayed jobs
+      return attemptsMade > 0 ? 'retrying' : 'scheduled';
+    case 'waiting':
+    case 'prioritized':
+    case 'waiting-children':
+      return 'queued';
+    case 'active':
+      return 'sending';
+    default:
+      return null;
+  }
+}
+
+// Give back quota reserved for recipients that will never be sent
+async function refundQuota(userId: string, count: number): Promise<void> {
+  const billing = await db.query.userBilling.findFirst({
+    where: eq(userBilling.userId, userId),
+  });
+
+  if (billing) {
+    await db
+      .update(userBilling)
+      .set({
+        emailUsed: sql`GREATEST(0, ${userBilling.emailUsed} - ${count})`,
+      })
+      .where(eq(userBilling.id, billing.id));
+  }
+}
+
+// Reserve quota again for a message going back into the queue
+async function reserveQuota(userId: string, count: number): Promise<void> {
+  await db
+    .update(userBilling)
+    .set({
+      emailUsed: sql`${userBilling.emailUsed} + ${count}`,
+    })
+    .where(eq(userBilling.userId, userId));
+}
+
+// Remove a queued or delayed job, mark its events cancelled and refund its quota
+async function cancelMessage(
+  auth: AuthContext,
+  messageId: string,
+  request: Request
+): Promise<
+  | { success: true; messageId: string; status: 'cancelled'; refunded: number }
+  | { success: false; statusCode: number; error: string; message: string }
+> {
+  const found = await findMessageJob(auth.user.id, messageId);
+  if (!found) {
+    return { success: false, statusCode: 404, error: 'Not Found', message: 'Message not found' };
+  }
+
+  const { job } = found;
+  const state = job ? await job.getState() : 'unknown';
+  if (!job || (state !== 'delayed' && state !== 'waiting' && state !== 'prioritized')) {
+    return { success: false, statusCode: 409, error: 'Conflict', message: `Message can no longer be cancelled (state: ${state})` };
+  }
+
+  try {
+    await job.remove();
+  } catch {
+    // Job was picked up by a worker between the state check and removal
+    return { success: false, statusCode: 409, error: 'Conflict', message: 'Message is already being sent' };
+  }
+
+  // Record cancellation for each recipient that hasn't been sent a copy yet
+  // (a job waiting to retry may have delivered some copies already)
+  const undelivered = getUndeliveredRecipients(job.data);
+  for (const event of found.events) {
+    if (!undelivered.includes(event.recipientEmail)) continue;
+
+    await db
+      .update(emailEvent)
+      .set({
+        eventType: 'cancelled',
+        metadata: JSON.stringify({
+          ...parseMetadata(event.metadata),
+          cancelledAt: new Date().toISOString(),
+        }),
+      })
+      .where(eq(emailEvent.id, event.id));
+  }
+
+  // Refund the quota reserved for the copies that won't be sent
+  const refunded = undelivered.length;
+  await refundQuota(auth.user.id, refunded);
+
+  await logActivity({
+    userId: auth.user.id,
+    type: 'message.cancelled',
+    action: 'cancelled',
+    resourceType: 'message',
+    resourceId: messageId,
+    resourceName: job.data.subject,
+    metadata: { jobId: job.id, state, refunded, source: 'api', apiKeyId: auth.apiKey.id },
+    request,
+  });
+
+  return { success: true, messageId, status: 'cancelled', refunded };
+}
+
+// Messages route plugin
+export const messagesRoute = new Elysia({ name: 'messages-route' })
+  .use(authMiddleware)
+  // Consolidated message status: events, queue job and tracking in one view
+  .get(
+    '/messages/:messageId',
+    async ({ auth, params, set }) => {
+      if (!auth) {
+        set.status = 401;
+        return { error: 'Unauthorized', message: 'Authentication required' };
+      }
+
+      const { messageId } = params;
+
+      const found = await findMessageJob(auth.user.id, messageId);
+      if (!found) {
+        set.status = 404;
+        return { error: 'Not Found', message: 'Message not found' };
+      }
+
+      const { job } = found;
+      const events = [...found.events].sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+
+      const [opens, links, jobState] = await Promise.all([
+        db.query.emailTrackingOpen.findMany({
+          where: and(eq(emailTrackingOpen.userId, auth.user.id), eq(emailTrackingOpen.messageId, messageId)),
+        }),
+        db.query.emailTrackingLink.findMany({
+          where: and(eq(emailTrackingLink.userId, auth.user.id), eq(emailTrackingLink.messageId, messageId)),
+        }),
+        job ? job.getState() : Promise.resolve(null),
+      ]);
+
+      // The send events (the ones that carry the job ID) hold the delivery outcome;
+      // later events (opens, clicks, bounces...) are added per recipient
+      const sendEvents = events.filter((event) => parseMetadata(event.metadata).jobId !== undefined);
+      const sendMetadata = parseMetadata((sendEvents[0] ?? events[0]).metadata);
+
+      const recipients = new Map<string, {
+        email: string;
+        role: unknown;
+        status: string;
+        updatedAt: Date;
+        smtpResponse: unknown;
+        error: unknown;
+        opens: number;
+        openedAt: string | null;
+      }>();
+
+      for (const event of events) {
+        const metadata = parseMetadata(event.metadata);
+        const existing = recipients.get(event.recipientEmail);
+        if (!existing) {
+          recipients.set(event.recipientEmail, {
+            email: event.recipientEmail,
+            role: metadata.role ?? null,
+            status: event.eventType,
+            updatedAt: event.createdAt,
+            smtpResponse: metadata.smtpResponse ?? null,
+            error: metadata.error ?? null,
+            opens: 0,
+            openedAt: null,
+          });
+          continue;
+        }
+
+        if (STATUS_RANK.indexOf(event.eventType) >= STATUS_RANK.indexOf(existing.status)) {
+          existing.status = event.eventType;
+          existing.updatedAt = event.createdAt;
+        }
+        if (metadata.role !== undefined) existing.role = metadata.role;
+        if (metadata.smtpResponse !== undefined) existing.smtpResponse = metadata.smtpResponse;
+        if (metadata.error !== undefined) existing.error = metadata.error;
+      }
+
+      for (const open of opens) {
+        const recipient = recipients.get(open.recipientEmail);
+        if (!recipient) continue;
+        recipient.opens += open.openCount ?? 0;
+        if (open.openedAt) recipient.openedAt = open.openedAt.toISOString();
+      }
+
+      // Overall status: the queue state while the job is pending, then the send outcome
+      const status = (job && jobState && statusFromJobState(jobState, job.attemptsMade))
+        ?? (jobState === 'failed' ? 'failed' : (sendEvents[0] ?? events[0]).eventType);
+
+      const totalOpens = opens.reduce((sum, open) => sum + (open.openCount ?? 0), 0);
+      const totalClicks = links.reduce((sum, link) => sum + (link.clickCount ?? 0), 0);
+      const firstEvent = events[0];
+
+      return {
+        messageId,
+        status,
+        subject: firstEvent.subject,
+        sendingDomain: firstEvent.sendingDomain,
+        templateId: firstEvent.templateId,
+        templateVersion: firstEvent.templateVersion,
+        tags: firstEvent.tags ?? [],
+        customMetadata: firstEvent.customMetadata ? JSON.parse(firstEvent.customMetadata) : null,
+        scheduledAt: typeof sendMetadata.scheduledAt === 'string' ? sendMetadata.scheduledAt : null,
+        createdAt: firstEvent.createdAt.toISOString(),
+        smtp: sendMetadata.smtpResponse !== undefined
+          ? {
+              response: sendMetadata.smtpResponse,
+              messageId: sendMetadata.smtpMessageId ?? null,
+              accepted: sendMetadata.accepted ?? [],
+              rejected: sendMetadata.rejected ?? [],
+            }
+          : job?.returnvalue
+            ? {
+                response: job.returnvalue.smtpResponse ?? null,
+                messageId: null,
+                accepted: job.returnvalue.acceptedRecipients,
+                rejected: job.returnvalue.rejectedRecipients,
+              }
+            : null,
+        job: job
+          ? {
+              id: job.id,
+              state: jobState,
+              attemptsMade: job.attemptsMade,
+              maxAttempts: job.opts.attempts ?? 1,
+              failedReason: job.failedReason || null,
+              priority: job.opts.priority ?? null,
+              processedAt: job.processedOn ? new Date(job.processedOn).toISOString() : null,
+              finishedAt: job.finishedOn ? new Date(job.finishedOn).toISOString() : null,
+            }
+          : null,
+        recipients: [...recipients.values()].map((recipient) => ({
+          ...recipient,
+          updatedAt: recipient.updatedAt.toISOString(),
+        })),
+        tracking: {
+          opens: totalOpens,
+          uniqueOpens: opens.filter((open) => open.openedAt).length,
+          clicks: totalClicks,
+          uniqueClicks: links.filter((link) => link.clickedAt).length,
+          links: links.map((link) => ({
+            url: link.originalUrl,
+            clicks: link.clickCount ?? 0,
+            firstClickedAt: link.clickedAt?.toISOString() ?? null,
+          })),
+        },
+      };
+    },
+    {
+      params: t.Object({
+        messageId: t.String(),
+      }),
+      detail: {
+        summary: 'Get Message Status',
+        description: 'Consolidated status of a message: per-recipient status derived from its events, the queue job state (attempts and failure reason), scheduled time, SMTP response and open/click counters. The job is null once the queue has removed it.',
+        tags: ['Messages'],
+      },
+    }
+  )
+  // Cancel a scheduled or queued message before it is sent
+  .delete(
+    '/messages/:messageId',
+    async ({ auth, params, set, request }) => {
+      if (!auth) {
+        set.status = 401;
+        return { error: 'Unauthorized', message: 'Authentication required' };
+      }
+
+      const result = await cancelMessage(auth, params.messageId, request);
+      if (!result.success) {
+        const { statusCode, success, ...error } = result;
+        set.status = statusCode;
+        return error;
+      }
+
+      return result;
+    },
+    {
+      params: t.Object({
+        messageId: t.String(),
+      }),
+      detail: {
+        summary: 'Cancel Message',
+        description: 'Cancel a scheduled or queued message before it is sent. Refunds the reserved email quota. Same as POST /messages/:messageId/cancel.',
+        tags: ['Messages'],
+      },
+    }
+  )
+  .post(
+    '/messages/:messageId/cancel',
+    async ({ auth, params, set, request }) => {
+      if (!auth) {
+        set.status = 401;
+        return { error: 'Unauthorized', message: 'Authentication required' };
+      }
+
+      const result = await cancelMessage(auth, params.messageId, request);
+      if (!result.success) {
+        const { statusCode, success, ...error } = result;
+        set.status = statusCode;
+        return error;
+      }
+
+      return result;
+    },
+    {
+      params: t.Object({
+        messageId: t.String(),
+      }),
+      detail: {
+        summary: 'Cancel Message',
+        description: 'Cancel a scheduled or queued message before it is sent. Refunds the reserved email quota.',
+        tags: ['Messages'],
+      },
+    }
+  )
+  // Move a scheduled message to a new time
+  .patch(
+    '/messages/:messageId/schedule',
+    async ({ auth, params, body, set }) => {
+      if (!auth) {
+        set.status = 401;
+        return { error: 'Unauthorized', message: 'Authentication required' };
+      }
+
+      const { messageId } = params;
+
+      const schedule = parseScheduledAt(body.scheduledAt);
+      if ('error' in schedule) {
+        set.status = 400;
+        return { error: 'Bad Request', message: schedule.error };
+      }
+
+      const found = await findMessageJob(auth.user.id, messageId);
+      if (!found) {
+        set.status = 404;
+        return { error: 'Not Found', message: 'Message not found' };
+      }
+
+      const { job } = found;
+      const state = job ? await job.getState() : 'unknown';
+      if (!job || state !== 'delayed') {
+        set.status = 409;
+        return { error: 'Conflict', message: `Only scheduled messages can be rescheduled (state: ${state})` };
+      }
+
+      // A past or current time means "send now"
+      const scheduledAt = schedule.scheduledAt ?? new Date();
+      const delay = Math.max(0, scheduledAt.getTime() - Date.now());
+
+      try {
+        await job.changeDelay(delay);
+        await job.updateData({ ...job.data, scheduledAt: scheduledAt.toISOString() });
+      } catch {
+        set.status = 409;
+        return { error: 'Conflict', message: 'Message is already being sent' };
+      }
+
+      // Keep scheduled events and attachment retention in sync with the new time
+      await db.transaction(async (tx) => {
+        for (const event of found.events) {
+          if (event.eventType !== 'scheduled') continue;
+
+          await tx
+            .update(emailEvent)
+            .set({
+              metadata: JSON.stringify({
+                ...parseMetadata(event.metadata),
+                scheduledAt: scheduledAt.toISOString(),
+                rescheduledAt: new Date().toISOString(),
+              }),
+            })
+            .where(eq(emailEvent.id, event.id));
+        }
+
+        await extendAttachmentRetention(job.data.attachments ?? [], scheduledAt, tx);
+      });
+
+      return {
+        success: true,
+        messageId,
+        status: 'scheduled',
+        scheduledAt: scheduledAt.toISOString(),
+      };
+    },
+    {
+      params: t.Object({
+        messageId: t.String(),
+      }),
+      body: t.Object({
+        scheduledAt: t.String({ minLength: 1 }),
+      }),
+      detail: {
+        summary: 'Reschedule Message',
+        description: 'Change the delivery time of a scheduled message. A time in the past sends it immediately.',
+        tags: ['Messages'],
+      },
+    }
+  )
+  // Retry a message whose job exhausted all of its attempts
+  .post(
+    '/messages/:messageId/retry',
+    async ({ auth, params, set, request }) => {
+      if (!auth) {
+        set.status = 401;
+        return { error: 'Unauthorized', message: 'Authentication required' };
+      }
+
+      const { messageId } = params;
+
+      const found = await findMessageJob(auth.user.id, messageId);
+      if (!found) {
+        set.status = 404;
+        return { error: 'Not Found', message: 'Message not found' };
+      }
+
+      const { job } = found;
+      const state = job ? await job.getState() : 'unknown';
+      if (!job || state !== 'failed') {
+        set.status = 409;
+        return {
+          error: 'Conflict',
+          message: job
+            ? `Only failed messages can be retried (state: ${state})`
+            : 'Message is no longer in the queue, resend it instead',
+        };
+      }
+
+      // The worker gave the quota back after the last attempt, so reserve it again
+      // Copies delivered before the failure weren't refunded, so they aren't reserved again
+      const reserved = getUndeliveredRecipients(job.data).length;
+      if (auth.billing) {
+        const limit = auth.billing.emailLimit ?? 0;
+        const used = auth.billing.emailUsed ?? 0;
+        if (used + reserved > limit) {
+          set.status = 429;
+          return { error: 'Rate Limit Exceeded', message: `Monthly email limit reached. Used: ${used}/${limit}` };
+        }
+      }
+
+      try {
+        await job.retry('failed', { resetAttemptsMade: true, resetAttemptsStarted: true });
+      } catch {
+        set.status = 409;
+        return { error: 'Conflict', message: 'Message is already being retried' };
+      }
+
+      await reserveQuota(auth.user.id, reserved);
+
+      // Back to queued until the worker picks it up again, keeping the attachments
+      // for the retention period from now
+      const retriedAt = new Date();
+      await db.transaction(async (tx) => {
+        for (const event of found.events) {
+          if (event.eventType !== 'failed') continue;
+
+          await tx
+            .update(emailEvent)
+            .set({
+              eventType: 'queued',
+              metadata: JSON.stringify({
+                ...parseMetadata(event.metadata),
+                retriedAt: retriedAt.toISOString(),
+              }),
+            })
+            .where(eq(emailEvent.id, event.id));
+        }
+
+        await extendAttachmentRetention(job.data.attachments ?? [], retriedAt, tx);
+      });
+
+      await logActivity({
+        userId: auth.user.id,
+        type: 'message.retried',
+        action: 'retried',
+        resourceType: 'message',
+        resourceId: messageId,
+        resourceName: job.data.subject,
+        metadata: { jobId: job.id, reserved, failedReason: job.failedReason, source: 'api', apiKeyId: auth.apiKey.id },
+        request,
+      });
+
+      return {
+        success: true,
+        messageId,
+        status: 'queued',
+        reserved,
+      };
+    },
+    {
+      params: t.Object({
+        messageId: t.String(),
+      }),
+      detail: {
+        summary: 'Retry Message',
+        description: 'Requeue a message whose delivery failed after all attempts. Reserves the email quota again (it was refunded when the last attempt failed).',
+        tags: ['Messages'],
+      },
+    }
+  )
+  // Send a fresh copy of a message (new Message-ID) to chosen recipients
+  .post(
+    '/messages/:messageId/resend',
+    async ({ auth, params, body, set, request }) => {
+      if (!auth) {
+        set.status = 401;
+        return { error: 'Unauthorized', message: 'Authentication required' };
+      }
+
+      const { messageId } = params;
+
+      const found = await findMessageJob(auth.user.id, messageId);
+      if (!found) {
+        set.status = 404;
+        return { error: 'Not Found', message: 'Message not found' };
+      }
+
+      // The rendered content only lives in the job, which the queue removes after a while
+      const { job } = found;
+      if (!job) {
+        set.status = 409;
+        return { error: 'Conflict', message: 'Message content is no longer available for resending' };
+      }
+
+      const { data } = job;
+      let attachments: ParsedAttachment[] | undefined;
+      if (data.attachments?.length) {
+        try {
+          attachments = (await loadAttachments(data.attachments)).map((attachment) => ({
+            filename: attachment.filename,
+            contentType: attachment.contentType,
+            content: attachment.content,
+            contentId: attachment.cid,
+          }));
+        } catch (error: any) {
+          set.status = 409;
+          return { error: 'Conflict', message: error.message };
+        }
+      }
+
+      const to = body.to ?? data.to;
+      const original = found.events[0];
+      const quota = getQuotaState(auth);
+
+      // The stored content carries this message's tracking, so it's taken off and the
+      // copy is tracked again as a message of its own (with its own recipients)
+      const tracking = getAppliedTracking(data.html);
+      const links = data.trackingRecipients
+        ? await db.query.emailTrackingLink.findMany({
+            where: eq(emailTrackingLink.messageId, data.messageId),
+            columns: { id: true, originalUrl: true },
+          })
+        : [];
+      const originalUrls = new Map(links.map((link) => [link.id, link.originalUrl]));
+      const html = removeEmailTracking(data.html, originalUrls);
+      const text = removeEmailTracking(data.text, originalUrls);
+
+      // Keep the template reference, so the copy honours opt-outs of the template's category
+      const template = data.templateId
+        ? await db.query.emailTemplate.findFirst({
+            where: and(eq(emailTemplate.id, data.templateId), eq(emailTemplate.userId, auth.user.id)),
+            columns: { categoryId: true },
+          })
+        : undefined;
+      let result;
+      try {
+        result = await queueEmail(
+          auth,
+          {
+            from: data.from.name ? `"${data.from.name}" <${data.from.address}>` : data.from.address,
+            to,
+            subject: data.subject,
+            html,
+            text,
+            replyTo: data.replyTo,
+            headers: data.headers,
+            renderedTemplate: data.templateId
+              ? {
+                  id: data.templateId,
+                  version: data.templateVersion ?? null,
+                  locale: data.locale ?? null,
+                  categoryId: template?.categoryId ?? null,
+                }
+              : undefined,
+            messageType: data.messageType,
+            tags: original.tags ?? undefined,
+            metadata: original.customMetadata ? JSON.parse(original.customMetadata) : undefined,
+            disableTracking: !data.trackingRecipients,
+            tracking,
+            autoText: false,
+            attachments,
+          },
+          quota
+        );
+      } finally {
+        // Messages queued before an error still count
+        await commitQuotaUsage(auth, quota);
+      }
+
+      if (!result.success) {
+        const { statusCode, success, details, ...error } = result;
+        set.status = statusCode;
+        return { ...error, ...details };
+      }
+
+      await logActivity({
+        userId: auth.user.id,
+        type: 'message.resent',
+        action: 'resent',
+        resourceType: 'message',
+        resourceId: messageId,
+        resourceName: data.subject,
+        metadata: {
+          messageIds: result.messages.map(m => m.messageId),
+          recipients: result.recipients,
+          suppressed: result.suppressed,
+          source: 'api',
+          apiKeyId: auth.apiKey.id,
+        },
+        request,
+      });
+
+      return {
+        ...result,
+        resentFrom: messageId,
+      };
+    },
+    {
+      params: t.Object({
+        messageId: t.String(),
+      }),
+      body: t.Object({
+        to: t.Optional(t.Union([t.String({ minLength: 1 }), t.Array(t.String({ minLength: 1 }), { minItems: 1 })])),
+      }),
+      detail: {
+        summary: 'Resend Message',
+        description: 'Send a fresh copy of a message with a new Message-ID, to the original To recipients or to the given ones. Goes through suppression and quota like /send. Only possible while the queue still holds the message (24 hours after sending, 7 days after failing).',
+        tags: ['Messages'],
+      },
+    }
+  );
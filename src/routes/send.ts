@@ -1,10 +1,16 @@
 import { Elysia, t } from 'elysia';
 import { eq, sql } from 'drizzle-orm';
 import { nanoid } from 'nanoid';
-import { db, emailEvent, userBilling, emailTrackingLink, emailTrackingOpen } from '../db';
+import { db, emailEvent, userBilling, emailTrackingLink, emailTrackingOpen, emailTrackingRecipient, emailTemplateVersion, type EmailTemplateVariable } from '../db';
 import { authMiddleware, type AuthContext } from '../middleware/auth';
-import { addEmailJob, type EmailJobData } from '../queues';
-import { applyEmailTracking, type LinkTrackingData } from '../lib/tracking';
+import { addEmailJob, type EmailJobData, type EmailAttachmentRef, type MessageType } from '../queues';
+import { applyEmailTracking, getTrackingBaseUrl, generateTrackingId, type LinkTrackingData } from '../lib/tracking';
+import { parseAttachments, storeAttachments, getAttachmentExpiry, type ParsedAttachment } from '../lib/attachments';
+import { withIdempotency } from '../lib/idempotency';
+import { renderTemplateString, escapeHtml, TemplateError, type TemplateContext } from '../lib/template';
+import { normalizeLocale, resolveLocale } from '../lib/locale';
+import { renderBlocksToHtml, BlockError } from '../lib/blocks';
+import { htmlToText } from '../lib/html-to-text';
 import { checkSuppression } from './suppression';
 import { config } from '../config';
 
@@ -43,7 +49,7 @@ function extractDomain(email: string): string | null {
 }
 
 // Parse variables from string (form-data) or object (JSON)
-function parseVariables(variables: string | Record<string, string> | undefined): Record<string, string> {
+function parseVariables(variables: string | TemplateContext | undefined): TemplateContext {
   if (!variables) return {};
   
   // If already an object, return as-is
@@ -65,309 +71,1055 @@ function parseVariables(variables: string | Record<string, string> | undefined):
   return {};
 }
 
+// Insert the preview text as a hidden preheader at the start of the body
+function injectPreheader(html: string, previewText: string | undefined): string {
+  if (!previewText) return html;
+
+  const preheader = `<div style="display:none;font-size:1px;color:#ffffff;line-height:1px;max-height:0px;max-width:0px;opacity:0;overflow:hidden;mso-hide:all;">${escapeHtml(previewText)}</div>`;
+
+  // Insert right after <body ...> when present, otherwise prepend
+  if (/<body[^>]*>/i.test(html)) {
+    return html.replace(/<body[^>]*>/i, (match) => `${match}${preheader}`);
+  }
+  return preheader + html;
+}
+
+// Matches any {{ ... }} placeholder left in rendered output
+const PLACEHOLDER_REGEX = /\{\{\{?\s*([^{}]+?)\s*\}?\}\}/g;
+
+// Variable definition fields used for defaults and validation
+// (shared by live variable rows and version snapshots)
+type VariableDefinition = Pick<EmailTemplateVariable, 'name' | 'defaultValue' | 'isRequired'>;
+
+// Which version of a template to render: a published version number, or the
+// current draft. When omitted the published version is used (or the draft for
+// templates that have never been published)
+export type TemplateVersionSelector = number | 'draft';
+
+// Content that can be localized per template locale variant
+interface TemplateContent {
+  subject: string;
+  htmlContent: string;
+  jsonContent?: string | null;
+  previewText: string | null;
+}
+
 // Render template with variables
 // templateIdOrSlug can be either UUID or user-defined slug
+// locale picks a locale variant, falling back e.g. id-ID -> id -> default content
+// Inactive templates are only found with includeInactive (previews)
+// Throws TemplateError (with field, line and column) when the template is invalid
 async function renderTemplate(
   templateIdOrSlug: string,
   userId: string,
-  variables: Record<string, string> = {}
-): Promise<{ subject: string; html: string; text?: string; templateId: string } | null> {
+  variables: TemplateContext = {},
+  options: { version?: TemplateVersionSelector; locale?: string; includeInactive?: boolean } = {}
+): Promise<{
+  subject: string;
+  html: string;
+  text?: string;
+  previewText?: string;
+  templateId: string;
+  templateVersion: number | null;
+  locale: string | null;
+  categoryId: string | null;
+  messageType: MessageType | null;
+  definitions: VariableDefinition[];
+  unresolved: string[];
+} | null | { versionNotFound: number }> {
   // First try to find by ID
   let template = await db.query.emailTemplate.findFirst({
-    where: (t, { and, eq }) => and(eq(t.id, templateIdOrSlug), eq(t.userId, userId), eq(t.isActive, true)),
+    where: (t, { and, eq }) => and(eq(t.id, templateIdOrSlug), eq(t.userId, userId), options.includeInactive ? undefined : eq(t.isActive, true)),
     with: {
       variables: true,
+      locales: true,
+      category: { columns: { messageType: true } },
     },
   });
 
   // If not found by ID, try to find by slug
   if (!template) {
     template = await db.query.emailTemplate.findFirst({
-      where: (t, { and, eq }) => and(eq(t.slug, templateIdOrSlug), eq(t.userId, userId), eq(t.isActive, true)),
+      where: (t, { and, eq }) => and(eq(t.slug, templateIdOrSlug), eq(t.userId, userId), options.includeInactive ? undefined : eq(t.isActive, true)),
       with: {
         variables: true,
+        locales: true,
+        category: { columns: { messageType: true } },
       },
     });
   }
 
   if (!template) return null;
 
-  let subject = template.subject;
-  let html = template.htmlContent;
-
-  // Replace variables in subject and content
-  for (const [key, value] of Object.entries(variables)) {
-    const placeholder = new RegExp(`\\{\\{\\s*${key}\\s*\\}\\}`, 'g');
-    // HTML escape the value for security
-    const escapedValue = value
-      .replace(/&/g, '&amp;')
-      .replace(/</g, '&lt;')
-      .replace(/>/g, '&gt;')
-      .replace(/"/g, '&quot;')
-      .replace(/'/g, '&#039;');
-    subject = subject.replace(placeholder, escapedValue);
-    html = html.replace(placeholder, escapedValue);
-  }
-
-  // Apply default values for any remaining variables
-  for (const varDef of template.variables) {
+  // Pick the content to render: a pinned version, the published version, or the draft
+  let source: TemplateContent = template;
+  let variants: Record<string, TemplateContent> = Object.fromEntries(
+    template.locales.map(({ locale, subject, htmlContent, previewText }) => [locale, { subject, htmlContent, previewText }])
+  );
+  let definitions: VariableDefinition[] = template.variables;
+  let templateVersion: number | null = null;
+
+  const { version } = options;
+  const versionNumber = version === 'draft' ? null : version ?? template.publishedVersion;
+  if (versionNumber !== null && versionNumber !== undefined) {
+    const snapshot = await db.query.emailTemplateVersion.findFirst({
+      where: (v, { and, eq }) => and(eq(v.templateId, template.id), eq(v.version, versionNumber)),
+    });
+    if (!snapshot) return { versionNotFound: versionNumber };
+
+    source = snapshot;
+    variants = snapshot.locales ? JSON.parse(snapshot.locales) : {};
+    definitions = JSON.parse(snapshot.variables);
+    templateVersion = snapshot.version;
+  }
+
+  // Locale variants replace subject, HTML and preview text; variables are shared
+  const localized = resolveLocale(variants, options.locale);
+  if (localized) {
+    source = localized.variant;
+  }
+
+  // Default values fill in any variables the caller didn't provide
+  const context: TemplateContext = {};
+  for (const varDef of definitions) {
     if (varDef.defaultValue) {
-      const placeholder = new RegExp(`\\{\\{\\s*${varDef.name}\\s*\\}\\}`, 'g');
-      const escapedDefault = varDef.defaultValue
-        .replace(/&/g, '&amp;')
-        .replace(/</g, '&lt;')
-        .replace(/>/g, '&gt;')
-        .replace(/"/g, '&quot;')
-        .replace(/'/g, '&#039;');
-      subject = subject.replace(placeholder, escapedDefault);
-      html = html.replace(placeholder, escapedDefault);
+      context[varDef.name] = varDef.defaultValue;
     }
   }
+  Object.assign(context, variables);
 
-  return { subject, html, templateId: template.id };
-}
+  const unresolved = new Set<string>();
 
-// Send route plugin
-export const sendRoute = new Elysia({ name: 'send-route' })
-  .use(authMiddleware)
-  .post(
-    '/send',
-    async ({ auth, body, set }) => {
-      // Type guard for auth (should never fail due to middleware)
-      if (!auth) {
-        set.status = 401;
-        return { error: 'Unauthorized', message: 'Authentication required' };
+  const renderField = (field: string, source: string, escape: boolean): string => {
+    try {
+      const { output, missing } = renderTemplateString(source, context, { escape });
+      missing.forEach(path => unresolved.add(path));
+      // Placeholders that survived rendering (e.g. injected through a variable value)
+      for (const match of output.matchAll(PLACEHOLDER_REGEX)) {
+        unresolved.add(match[1].trim());
+      }
+      return output;
+    } catch (error) {
+      if (error instanceof TemplateError) {
+        throw new TemplateError(error.reason, error.line, error.column, field);
       }
+      throw error;
+    }
+  };
 
-      const { from, to, subject, html, text, templateId, variables: rawVariables, headers, replyTo, disableTracking } = body;
-      
-      // Parse variables (handles both JSON string from form-data and object from JSON body)
-      const variables = parseVariables(rawVariables);
+  // Subject is a plain-text header, so only the HTML body is escaped
+  const subject = renderField('subject', source.subject, false);
+  const previewText = source.previewText
+    ? renderField('previewText', source.previewText, false)
+    : undefined;
+  // Templates saved with only a block design are compiled here
+  const htmlSource = source.htmlContent || (source.jsonContent ? renderBlocksToHtml(source.jsonContent) : '');
+  const html = injectPreheader(renderField('html', htmlSource, true), previewText);
 
-      console.log('Request body:', { ...body, variables });
+  return {
+    subject,
+    html,
+    previewText,
+    templateId: template.id,
+    templateVersion,
+    locale: localized?.locale ?? null,
+    categoryId: template.categoryId,
+    messageType: (template.category?.messageType as MessageType | undefined) ?? null,
+    definitions,
+    unresolved: [...unresolved],
+  };
+}
 
-      // Parse FROM address
-      const fromParsed = parseEmailAddress(from);
-      if (!fromParsed) {
-        set.status = 400;
-        return { error: 'Bad Request', message: 'Invalid FROM email address format' };
-      }
+// Check provided variables against the template's variable definitions
+// - missing: required variables with no value and no default
+// - unknown: variables the template doesn't declare (only when it declares any)
+function validateTemplateVariables(
+  definitions: VariableDefinition[],
+  variables: TemplateContext
+): { missing: string[]; unknown: string[] } {
+  const isEmpty = (value: unknown) => value === undefined || value === null || value === '';
 
-      // Validate FROM domain matches API key's domain
-      const fromDomain = extractDomain(from);
-      if (!fromDomain || fromDomain !== auth.domain.name.toLowerCase()) {
-        set.status = 403;
-        return {
-          error: 'Forbidden',
-          message: `FROM domain must match your API key's domain (${auth.domain.name})`,
-        };
-      }
+  const missing = definitions
+    .filter(d => d.isRequired && isEmpty(variables[d.name]) && !d.defaultValue)
+    .map(d => d.name);
 
-      // Normalize recipients to array
-      const recipients = Array.isArray(to) ? to : [to];
-      
-      // Validate all recipient addresses
-    //   for (const recipient of recipients) {
-    //     if (!parseEmailAddress(recipient)) {
-    //       set.status = 400;
-    //       return { error: 'Bad Request', message: `Invalid recipient email: ${recipient}` };
-    //     }
-    //   }
-
-      // Check rate limit
-      if (auth.billing) {
-        const emailLimit = auth.billing.emailLimit ?? 0;
-        const emailUsed = auth.billing.emailUsed ?? 0;
-        const emailsToSend = recipients.length;
-
-        if (emailUsed + emailsToSend > emailLimit) {
-          set.status = 429;
-          return {
-            error: 'Rate Limit Exceeded',
-            message: `Monthly email limit reached. Used: ${emailUsed}/${emailLimit}`,
-          };
-        }
-      }
+  const declared = new Set(definitions.map(d => d.name));
+  const unknown = definitions.length > 0
+    ? Object.keys(variables).filter(name => !declared.has(name))
+    : [];
 
-      // Check suppression list (checks both global and domain-specific suppression)
-      const suppressedEmails = await checkSuppression(
-        auth.user.id,
-        recipients.map(r => r.toLowerCase()),
-        auth.domain.id
-      );
+  return { missing, unknown };
+}
 
-      // Filter out suppressed recipients
-      const validRecipients = recipients.filter(
-        r => !suppressedEmails.includes(r.toLowerCase())
-      );
+// Render a template exactly as /send would (defaults, escaping, variable
+// checks) without tracking, queueing or quota - shared with the preview endpoint
+export async function renderTemplateForSend(
+  userId: string,
+  templateIdOrSlug: string,
+  variables: TemplateContext,
+  options: { strict?: boolean; version?: TemplateVersionSelector; locale?: string; includeInactive?: boolean } = {}
+): Promise<
+  | {
+      success: true;
+      templateId: string;
+      templateVersion: number | null;
+      locale: string | null;
+      categoryId: string | null;
+      messageType: MessageType | null;
+      subject: string;
+      html: string;
+      text?: string;
+      previewText?: string;
+    }
+  | SendFailure
+> {
+  let locale: string | undefined;
+  if (options.locale) {
+    locale = normalizeLocale(options.locale) ?? undefined;
+    if (!locale) {
+      return { success: false, statusCode: 400, error: 'Bad Request', message: `Invalid locale: ${options.locale}` };
+    }
+  }
 
-      if (validRecipients.length === 0) {
-        set.status = 400;
-        return {
-          error: 'All Recipients Suppressed',
-          message: 'All recipient emails are on the suppression list',
-          suppressedEmails,
-        };
-      }
+  let rendered;
+  try {
+    rendered = await renderTemplate(templateIdOrSlug, userId, variables, {
+      version: options.version,
+      locale,
+      includeInactive: options.includeInactive,
+    });
+  } catch (error) {
+    if (error instanceof TemplateError) {
+      return {
+        success: false,
+        statusCode: 422,
+        error: 'Template Render Error',
+        message: error.message,
+        details: { field: error.field, line: error.line, column: error.column },
+      };
+    }
+    if (error instanceof BlockError) {
+      return {
+        success: false,
+        statusCode: 422,
+        error: 'Template Render Error',
+        message: error.message,
+        details: { field: 'jsonContent', path: error.path },
+      };
+    }
+    throw error;
+  }
+  if (!rendered) {
+    return { success: false, statusCode: 404, error: 'Not Found', message: 'Template not found or access denied' };
+  }
+  if ('versionNotFound' in rendered) {
+    return { success: false, statusCode: 404, error: 'Not Found', message: `Template version ${rendered.versionNotFound} not found` };
+  }
 
-      // Determine email content
-      let emailSubject = subject;
-      let emailHtml = html;
-      let emailText = text;
-
-      // If templateId is provided, render the template
-      if (templateId) {
-        const rendered = await renderTemplate(templateId, auth.user.id, variables);
-        if (!rendered) {
-          set.status = 404;
-          return { error: 'Not Found', message: 'Template not found or access denied' };
-        }
-        emailSubject = rendered.subject;
-        emailHtml = rendered.html;
-        if (!emailText) emailText = undefined; // Template doesn't provide text version
-      }
+  // Refuse to send with missing/unknown variables (and leftovers in strict mode)
+  const { missing, unknown } = validateTemplateVariables(rendered.definitions, variables);
+  const unresolved = options.strict ? rendered.unresolved : [];
+  if (missing.length > 0 || unknown.length > 0 || unresolved.length > 0) {
+    const problems = [
+      missing.length > 0 ? `missing required: ${missing.join(', ')}` : null,
+      unknown.length > 0 ? `unknown: ${unknown.join(', ')}` : null,
+      unresolved.length > 0 ? `unresolved placeholders: ${unresolved.join(', ')}` : null,
+    ].filter(Boolean);
 
-      // Validate we have content
-      if (!emailSubject) {
-        set.status = 400;
-        return { error: 'Bad Request', message: 'Subject is required' };
-      }
-      if (!emailHtml && !emailText) {
-        set.status = 400;
-        return { error: 'Bad Request', message: 'Either html or text content is required' };
-      }
+    return {
+      success: false,
+      statusCode: 422,
+      error: 'Template Variable Error',
+      message: `Invalid template variables (${problems.join('; ')})`,
+      details: { missing, unknown, unresolved },
+    };
+  }
 
-      // Generate IDs
-      const jobId = nanoid();
-      const messageId = `<${nanoid()}@${auth.domain.name}>`;
+  return {
+    success: true,
+    templateId: rendered.templateId,
+    templateVersion: rendered.templateVersion,
+    locale: rendered.locale,
+    categoryId: rendered.categoryId,
+    messageType: rendered.messageType,
+    subject: rendered.subject,
+    html: rendered.html,
+    text: rendered.text,
+    previewText: rendered.previewText,
+  };
+}
 
-      // Apply email tracking (link wrapping + open pixel)
-      let trackingData: {
-        modifiedHtml: string;
-        openTrackingId: string;
-        links: LinkTrackingData[];
-      } | null = null;
+// Maximum number of messages accepted by a single batch request
+const MAX_BATCH_SIZE = 500;
 
-      const shouldTrack = !disableTracking && emailHtml && (
-        config.tracking.enableOpenTracking || config.tracking.enableClickTracking
-      );
+// How far ahead a message may be scheduled
+const MAX_SCHEDULE_HORIZON_MS = 30 * 24 * 60 * 60 * 1000;
 
-      if (shouldTrack && emailHtml) {
-        trackingData = applyEmailTracking(config.tracking.baseUrl, emailHtml);
-        emailHtml = trackingData.modifiedHtml;
-      }
+// Parse and validate a scheduledAt timestamp
+// Returns null for "send now" (missing or already in the past)
+export function parseScheduledAt(value: string | undefined): { scheduledAt: Date | null } | { error: string } {
+  if (!value) return { scheduledAt: null };
 
-      // Parse all recipient addresses (only valid, non-suppressed ones)
-      const recipientAddresses = validRecipients.map(r => r);
+  const scheduledAt = new Date(value);
+  if (isNaN(scheduledAt.getTime())) {
+    return { error: 'scheduledAt must be a valid ISO 8601 timestamp' };
+  }
 
-      // Create email event for each recipient (status: queued)
-      const eventIds: string[] = [];
-      for (const recipientAddr of recipientAddresses) {
-        const eventId = nanoid();
-        await db.insert(emailEvent).values({
-          id: eventId,
-          userId: auth.user.id,
-          messageId,
-          eventType: 'queued',
-          recipientEmail: recipientAddr,
-          sendingDomain: auth.domain.name,
-          subject: emailSubject,
-          metadata: JSON.stringify({
-            from: fromParsed,
-            replyTo,
-            headers,
-            templateId,
-            jobId,
-          }),
-        });
-        eventIds.push(eventId);
-
-        // Create tracking records for this recipient
-        if (trackingData) {
-          // Open tracking record
-          if (config.tracking.enableOpenTracking) {
-            await db.insert(emailTrackingOpen).values({
-              id: `${trackingData.openTrackingId}_${nanoid(8)}`,
-              userId: auth.user.id,
-              messageId,
-              recipientEmail: recipientAddr,
-              sendingDomain: auth.domain.name,
-            });
-          }
+  const delay = scheduledAt.getTime() - Date.now();
+  if (delay > MAX_SCHEDULE_HORIZON_MS) {
+    return { error: `scheduledAt cannot be more than ${MAX_SCHEDULE_HORIZON_MS / (24 * 60 * 60 * 1000)} days in the future` };
+  }
 
-          // Link tracking records (only need to create once per unique link)
-          if (config.tracking.enableClickTracking && recipientAddresses.indexOf(recipientAddr) === 0) {
-            for (const link of trackingData.links) {
-              await db.insert(emailTrackingLink).values({
-                id: link.trackingId,
-                userId: auth.user.id,
-                messageId,
-                recipientEmail: recipientAddr, // First recipient as reference
-                sendingDomain: auth.domain.name,
-                originalUrl: link.originalUrl,
-              });
-            }
-          }
-        }
-      }
+  return { scheduledAt: delay > 0 ? scheduledAt : null };
+}
 
-      // Increment email used counter
-      if (auth.billing) {
-        await db
-          .update(userBilling)
-          .set({
-            emailUsed: sql`${userBilling.emailUsed} + ${validRecipients.length}`,
-          })
-          .where(eq(userBilling.id, auth.billing.id));
-      }
+// Caller-supplied key/value pairs stored with a message
+type MessageMetadata = Record<string, string | number | boolean>;
 
-      // Create job data
-      const jobData: EmailJobData = {
-        jobId,
-        userId: auth.user.id,
-        domainId: auth.domain.id,
-        domainName: auth.domain.name,
-        apiKeyId: auth.apiKey.id,
-        messageId,
+// Limits for caller-supplied tags and metadata (copied onto every event of the message)
+const MAX_TAGS = 10;
+const TAG_REGEX = /^[a-zA-Z0-9_.:-]{1,64}$/;
+const MAX_METADATA_KEYS = 20;
+const MAX_METADATA_BYTES = 2048;
+
+// Validate tags and metadata, returning them in the form stored on emailEvent
+export function parseMessageLabels(
+  tags: string[] | undefined,
+  metadata: MessageMetadata | undefined
+): { tags: string[] | null; customMetadata: string | null } | { error: string } {
+  const uniqueTags = [...new Set((tags ?? []).map(tag => tag.trim()))];
+  if (uniqueTags.length > MAX_TAGS) {
+    return { error: `A message can have at most ${MAX_TAGS} tags` };
+  }
+  const invalidTag = uniqueTags.find(tag => !TAG_REGEX.test(tag));
+  if (invalidTag !== undefined) {
+    return { error: `Invalid tag "${invalidTag}": use up to 64 letters, digits, "_", "-", "." or ":"` };
+  }
+
+  let customMetadata: string | null = null;
+  if (metadata && Object.keys(metadata).length > 0) {
+    if (Object.keys(metadata).length > MAX_METADATA_KEYS) {
+      return { error: `metadata can have at most ${MAX_METADATA_KEYS} keys` };
+    }
+    customMetadata = JSON.stringify(metadata);
+    if (Buffer.byteLength(customMetadata) > MAX_METADATA_BYTES) {
+      return { error: `metadata cannot be larger than ${MAX_METADATA_BYTES} bytes` };
+    }
+  }
+
+  return { tags: uniqueTags.length > 0 ? uniqueTags : null, customMetadata };
+}
+
+// Fields accepted for a single message (shared by /send and /send/batch)
+export interface SendMessageInput {
+  from: string;
+  to: string | string[];
+  cc?: string | string[];
+  bcc?: string | string[];
+  subject?: string;
+  html?: string;
+  text?: string;
+  templateId?: string;
+  // Pin a published template version (defaults to the currently published one)
+  templateVersion?: number;
+  // Template locale variant to render (falls back to less specific locales, then the default)
+  locale?: string;
+  variables?: TemplateContext;
+  // Content already rendered from a template (resends): recorded as that template's
+  // and checked against its category's opt-outs, without rendering it again
+  renderedTemplate?: { id: string; version: number | null; locale: string | null; categoryId: string | null };
+  headers?: Record<string, string>;
+  replyTo?: string;
+  disableTracking?: boolean;
+  // Per-send open/click tracking (defaults to the domain's settings)
+  tracking?: { opens?: boolean; clicks?: boolean };
+  // Generate a text/plain part from the HTML when no text is given (default true)
+  autoText?: boolean;
+  // Defaults to the template category's type, otherwise marketing
+  messageType?: MessageType;
+  // Stored on every event of the message, so it can be found through /events
+  tags?: string[];
+  metadata?: MessageMetadata;
+  envelope?: EnvelopeMode;
+  scheduledAt?: string;
+  attachments?: ParsedAttachment[];
+  // Also reject templates that leave placeholders unresolved
+  strict?: boolean;
+}
+
+// How multiple recipients are delivered:
+// - individual: one message per recipient (default)
+// - shared: a single message with every recipient in the To header
+// CC and BCC recipients are added to every message
+type EnvelopeMode = 'individual' | 'shared';
+
+// A single queued message (one BullMQ job / Message-ID)
+interface QueuedMessage {
+  jobId: string;
+  messageId: string;
+  recipients: string[];
+}
+
+// In-memory view of the user's monthly quota for the current request.
+// `used` is advanced as messages are queued so a batch only reads billing once.
+interface QuotaState {
+  limit: number;
+  used: number;
+}
+
+// Failed step of the send pipeline, mapped to an HTTP error by the route
+export interface SendFailure {
+  success: false;
+  statusCode: number;
+  error: string;
+  message: string;
+  suppressedEmails?: string[];
+  details?: Record<string, unknown>;
+}
+
+type SendResult =
+  | {
+      success: true;
+      jobId?: string;
+      messageId?: string;
+      messages: QueuedMessage[];
+      recipients: number;
+      suppressed?: string[];
+      scheduledAt?: string;
+      status: 'queued' | 'scheduled';
+    }
+  | SendFailure;
+
+// Run one message through the send pipeline: FROM check, quota, suppression,
+// template rendering, tracking, event records and queueing.
+// Does not persist quota usage - callers flush `quota.used` once per request,
+// also when this throws (envelopes queued before the failure are already counted).
+// Also used by the messages route to resend a message.
+export async function queueEmail(auth: AuthContext, input: SendMessageInput, quota: QuotaState | null): Promise<SendResult> {
+  const { from, to, cc, bcc, subject, html, text, templateId, variables = {}, headers, replyTo, disableTracking, envelope = 'individual' } = input;
+
+  // Validate schedule before doing any work
+  const schedule = parseScheduledAt(input.scheduledAt);
+  if ('error' in schedule) {
+    return { success: false, statusCode: 400, error: 'Bad Request', message: schedule.error };
+  }
+  const { scheduledAt } = schedule;
+
+  // Per-send options override the domain defaults; disableTracking and the global switches turn tracking off
+  const tracking = {
+    opens: !disableTracking && config.tracking.enableOpenTracking && (input.tracking?.opens ?? auth.domain.trackOpens),
+    clicks: !disableTracking && config.tracking.enableClickTracking && (input.tracking?.clicks ?? auth.domain.trackClicks),
+  };
+
+  const labels = parseMessageLabels(input.tags, input.metadata);
+  if ('error' in labels) {
+    return { success: false, statusCode: 400, error: 'Bad Request', message: labels.error };
+  }
+
+  // Parse FROM address
+  const fromParsed = parseEmailAddress(from);
+  if (!fromParsed) {
+    return { success: false, statusCode: 400, error: 'Bad Request', message: 'Invalid FROM email address format' };
+  }
+
+  // Validate FROM domain matches API key's domain
+  const fromDomain = extractDomain(from);
+  if (!fromDomain || fromDomain !== auth.domain.name.toLowerCase()) {
+    return {
+      success: false,
+      statusCode: 403,
+      error: 'Forbidden',
+      message: `FROM domain must match your API key's domain (${auth.domain.name})`,
+    };
+  }
+
+  // Normalize recipients to array
+  const recipients = Array.isArray(to) ? to : [to];
+
+  // Normalize CC/BCC, dropping addresses that already receive the message
+  const seen = new Set(recipients.map(r => r.toLowerCase()));
+  const dedupe = (list: string | string[] | undefined): string[] =>
+    (Array.isArray(list) ? list : list ? [list] : []).filter((r) => {
+      const key = r.toLowerCase();
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+  const ccRecipients = dedupe(cc);
+  const bccRecipients = dedupe(bcc);
+
+  // Determine email content
+  let emailSubject = subject;
+  let emailHtml = html;
+  let emailText = text;
+  let renderedTemplate: {
+    id: string;
+    version: number | null;
+    locale: string | null;
+    categoryId: string | null;
+    messageType: MessageType | null;
+  } | undefined = input.renderedTemplate && { ...input.renderedTemplate, messageType: null };
+
+  if (input.templateVersion !== undefined && !templateId) {
+    return { success: false, statusCode: 400, error: 'Bad Request', message: 'templateVersion requires templateId' };
+  }
+
+  // If templateId is provided, render the template
+  if (templateId) {
+    const rendered = await renderTemplateForSend(auth.user.id, templateId, variables, {
+      strict: input.strict,
+      version: input.templateVersion,
+      locale: input.locale,
+    });
+    if (!rendered.success) return rendered;
+
+    renderedTemplate = {
+      id: rendered.templateId,
+      version: rendered.templateVersion,
+      locale: rendered.locale,
+      categoryId: rendered.categoryId,
+      messageType: rendered.messageType,
+    };
+    emailSubject = rendered.subject;
+    emailHtml = rendered.html;
+  }
+
+  const messageType: MessageType = input.messageType ?? renderedTemplate?.messageType ?? 'marketing';
+
+  // Check suppression list (global, domain-specific, and opt-outs from the template's category)
+  // Transactional mail still goes to unsubscribed recipients, but not to bounces or complaints
+  const suppressedEmails = await checkSuppression(
+    auth.user.id,
+    [...recipients, ...ccRecipients, ...bccRecipients].map(r => r.toLowerCase()),
+    auth.domain.id,
+    renderedTemplate?.categoryId,
+    messageType
+  );
+
+  // Filter out suppressed recipients
+  const isAllowed = (r: string) => !suppressedEmails.includes(r.toLowerCase());
+  const validRecipients = recipients.filter(isAllowed);
+  const validCc = ccRecipients.filter(isAllowed);
+  const validBcc = bccRecipients.filter(isAllowed);
+
+  if (validRecipients.length === 0) {
+    return {
+      success: false,
+      statusCode: 400,
+      error: 'All Recipients Suppressed',
+      message: 'All recipient emails are on the suppression list',
+      suppressedEmails,
+    };
+  }
+
+  // Every delivered copy counts against quota (CC/BCC are repeated per envelope)
+  const envelopeCount = envelope === 'shared' ? 1 : validRecipients.length;
+  const emailsToSend = validRecipients.length + envelopeCount * (validCc.length + validBcc.length);
+
+  // Check rate limit
+  if (quota) {
+    if (quota.used + emailsToSend > quota.limit) {
+      return {
+        success: false,
+        statusCode: 429,
+        error: 'Rate Limit Exceeded',
+        message: `Monthly email limit reached. Used: ${quota.used}/${quota.limit}`,
+      };
+    }
+  }
+
+  // Validate we have content
+  if (!emailSubject) {
+    return { success: false, statusCode: 400, error: 'Bad Request', message: 'Subject is required' };
+  }
+  if (!emailHtml && !emailText) {
+    return { success: false, statusCode: 400, error: 'Bad Request', message: 'Either html or text content is required' };
+  }
+
+  // Store attachments once; every envelope references the same rows
+  let attachmentRefs: EmailAttachmentRef[] | undefined;
+  if (input.attachments?.length) {
+    attachmentRefs = await storeAttachments(auth.user.id, input.attachments, getAttachmentExpiry(scheduledAt ?? new Date()));
+  }
+
+  // Shared mode sends one message to everyone; individual mode fans out
+  // into one message (job, Message-ID, tracking, events) per recipient
+  const envelopes = envelope === 'shared'
+    ? [validRecipients]
+    : validRecipients.map(r => [r]);
+
+  const messages: QueuedMessage[] = [];
+  for (const envelopeRecipients of envelopes) {
+    messages.push(
+      await queueEnvelope(auth, {
         from: fromParsed,
-        to: recipientAddresses,
-        subject: emailSubject!,
+        to: envelopeRecipients,
+        cc: validCc,
+        bcc: validBcc,
+        subject: emailSubject,
         html: emailHtml,
         text: emailText,
         replyTo,
         headers,
-        templateId,
-        createdAt: new Date().toISOString(),
-      };
+        templateId: renderedTemplate?.id,
+        templateVersion: renderedTemplate?.version ?? undefined,
+        locale: renderedTemplate?.locale ?? undefined,
+        tracking,
+        autoText: input.autoText ?? true,
+        messageType,
+        tags: labels.tags,
+        customMetadata: labels.customMetadata,
+        scheduledAt,
+        attachments: attachmentRefs,
+      })
+    );
+
+    // Charge quota per queued envelope, so a failure partway through only counts what was queued
+    if (quota) {
+      quota.used += envelopeRecipients.length + validCc.length + validBcc.length;
+    }
+  }
 
-      // Add job to BullMQ queue
-      await addEmailJob(jobData);
+  return {
+    success: true,
+    jobId: messages.length === 1 ? messages[0].jobId : undefined,
+    messageId: messages.length === 1 ? messages[0].messageId : undefined,
+    messages,
+    recipients: emailsToSend,
+    suppressed: suppressedEmails.length > 0 ? suppressedEmails : undefined,
+    scheduledAt: scheduledAt?.toISOString(),
+    status: scheduledAt ? 'scheduled' : 'queued',
+  };
+}
 
-      return {
-        success: true,
+// Create tracking, event records and the queue job for a single envelope
+async function queueEnvelope(
+  auth: AuthContext,
+  content: {
+    from: { name?: string; address: string };
+    to: string[];
+    cc: string[];
+    bcc: string[];
+    subject: string;
+    html?: string;
+    text?: string;
+    replyTo?: string;
+    headers?: Record<string, string>;
+    templateId?: string;
+    templateVersion?: number;
+    locale?: string;
+    tracking: { opens: boolean; clicks: boolean };
+    autoText?: boolean;
+    messageType: MessageType;
+    tags: string[] | null;
+    customMetadata: string | null;
+    scheduledAt: Date | null;
+    attachments?: EmailAttachmentRef[];
+  }
+): Promise<QueuedMessage> {
+  const { from, to, cc, bcc, subject, replyTo, headers, templateId, templateVersion, locale, messageType, tags, customMetadata, tracking, scheduledAt, attachments } = content;
+  let html = content.html;
+
+  // Generate IDs
+  const jobId = nanoid();
+  const messageId = `<${nanoid()}@${auth.domain.name}>`;
+
+  // Apply email tracking (link wrapping + open pixel)
+  let trackingData: {
+    modifiedHtml: string;
+    links: LinkTrackingData[];
+  } | null = null;
+
+  const shouldTrack = html && (tracking.opens || tracking.clicks);
+
+  // Links use the domain's own tracking host once its CNAME is verified
+  if (shouldTrack && html) {
+    trackingData = applyEmailTracking(
+      getTrackingBaseUrl(config.tracking.baseUrl, auth.domain.trackingHost),
+      html,
+      tracking
+    );
+    html = trackingData.modifiedHtml;
+  }
+
+  // Plain-text alternative from the final HTML (a caller-provided text always wins)
+  const text = content.text !== undefined
+    ? content.text
+    : content.autoText && html ? htmlToText(html) : undefined;
+
+  // Every recipient gets its own event, tagged with how it was addressed
+  const recipientAddresses = [
+    ...to.map(address => ({ address, role: 'to' as const })),
+    ...cc.map(address => ({ address, role: 'cc' as const })),
+    ...bcc.map(address => ({ address, role: 'bcc' as const })),
+  ];
+
+  // Recipient tracking IDs, filled into each recipient's copy by the worker
+  const trackingRecipients: Record<string, string> = {};
+
+  // Link tracking records (one per unique URL, shared by all recipients)
+  if (trackingData && tracking.clicks) {
+    for (const link of trackingData.links) {
+      await db.insert(emailTrackingLink).values({
+        id: link.trackingId,
+        userId: auth.user.id,
+        messageId,
+        recipientEmail: recipientAddresses[0].address, // First recipient as reference
+        sendingDomain: auth.domain.name,
+        originalUrl: link.originalUrl,
+      });
+    }
+  }
+
+  // Create email event for each recipient (status: queued or scheduled)
+  for (const { address: recipientAddr, role } of recipientAddresses) {
+    await db.insert(emailEvent).values({
+      id: nanoid(),
+      userId: auth.user.id,
+      messageId,
+      eventType: scheduledAt ? 'scheduled' : 'queued',
+      recipientEmail: recipientAddr,
+      sendingDomain: auth.domain.name,
+      subject,
+      templateId,
+      templateVersion,
+      locale,
+      tags,
+      customMetadata,
+      metadata: JSON.stringify({
+        from,
+        replyTo,
+        headers,
+        templateId,
+        templateVersion,
+        locale,
+        messageType,
         jobId,
+        role,
+        scheduledAt: scheduledAt?.toISOString(),
+        attachments: attachments?.map(a => ({ filename: a.filename, size: a.size })),
+      }),
+    });
+
+    // Create tracking records for this recipient
+    if (trackingData) {
+      const recipientId = generateTrackingId();
+      trackingRecipients[recipientAddr] = recipientId;
+
+      await db.insert(emailTrackingRecipient).values({
+        id: recipientId,
+        userId: auth.user.id,
         messageId,
-        recipients: validRecipients.length,
-        suppressed: suppressedEmails.length > 0 ? suppressedEmails : undefined,
-        status: 'queued',
-      };
+        recipientEmail: recipientAddr,
+      });
+
+      // Open tracking record (the pixel URL carries the recipient ID)
+      if (tracking.opens) {
+        await db.insert(emailTrackingOpen).values({
+          id: recipientId,
+          userId: auth.user.id,
+          messageId,
+          recipientEmail: recipientAddr,
+          sendingDomain: auth.domain.name,
+        });
+      }
+    }
+  }
+
+  // Create job data
+  const jobData: EmailJobData = {
+    jobId,
+    userId: auth.user.id,
+    domainId: auth.domain.id,
+    domainName: auth.domain.name,
+    apiKeyId: auth.apiKey.id,
+    messageId,
+    from,
+    to,
+    cc: cc.length > 0 ? cc : undefined,
+    bcc: bcc.length > 0 ? bcc : undefined,
+    subject,
+    html,
+    text,
+    replyTo,
+    headers,
+    attachments,
+    templateId,
+    templateVersion,
+    locale,
+    messageType,
+    trackingRecipients: trackingData ? trackingRecipients : undefined,
+    createdAt: new Date().toISOString(),
+    scheduledAt: scheduledAt?.toISOString(),
+  };
+
+  // Add job to BullMQ queue (delayed until scheduledAt when set, prioritized by message type)
+  await addEmailJob(jobData, {
+    delay: scheduledAt ? scheduledAt.getTime() - Date.now() : undefined,
+  });
+
+  return { jobId, messageId, recipients: recipientAddresses.map(r => r.address) };
+}
+
+// Build the per-request quota state from the authenticated billing record
+export function getQuotaState(auth: AuthContext): QuotaState | null {
+  if (!auth.billing) return null;
+  return {
+    limit: auth.billing.emailLimit ?? 0,
+    used: auth.billing.emailUsed ?? 0,
+  };
+}
+
+// Persist the quota consumed during this request in a single update
+export async function commitQuotaUsage(auth: AuthContext, quota: QuotaState | null): Promise<void> {
+  if (!auth.billing || !quota) return;
+
+  const consumed = quota.used - (auth.billing.emailUsed ?? 0);
+  if (consumed <= 0) return;
+
+  await db
+    .update(userBilling)
+    .set({
+      emailUsed: sql`${userBilling.emailUsed} + ${consumed}`,
+    })
+    .where(eq(userBilling.id, auth.billing.id));
+}
+
+const recipientsSchema = t.Union([t.String({ minLength: 1 }), t.Array(t.String({ minLength: 1 }))]);
+
+const attachmentSchema = t.Object({
+  filename: t.String({ minLength: 1 }),
+  contentType: t.Optional(t.String()),
+  content: t.String(), // base64
+  contentId: t.Optional(t.String()),
+});
+
+const envelopeSchema = t.Union([t.Literal('individual'), t.Literal('shared')]);
+
+const messageTypeSchema = t.Union([t.Literal('transactional'), t.Literal('marketing')]);
+
+const trackingSchema = t.Object({
+  opens: t.Optional(t.Boolean()),
+  clicks: t.Optional(t.Boolean()),
+});
+
+const tagsSchema = t.Array(t.String());
+
+const metadataSchema = t.Record(t.String(), t.Union([t.String(), t.Number(), t.Boolean()]));
+
+// Per-message overrides accepted by /send/batch
+const batchMessageSchema = t.Object({
+  to: recipientsSchema,
+  cc: t.Optional(recipientsSchema),
+  bcc: t.Optional(recipientsSchema),
+  variables: t.Optional(t.Record(t.String(), t.Unknown())),
+  from: t.Optional(t.String({ minLength: 1 })),
+  subject: t.Optional(t.String()),
+  html: t.Optional(t.String()),
+  text: t.Optional(t.String()),
+  templateId: t.Optional(t.String()),
+  templateVersion: t.Optional(t.Integer({ minimum: 1 })),
+  locale: t.Optional(t.String()),
+  headers: t.Optional(t.Record(t.String(), t.String())),
+  replyTo: t.Optional(t.String()),
+  disableTracking: t.Optional(t.Boolean()),
+  tracking: t.Optional(trackingSchema),
+  autoText: t.Optional(t.Boolean()),
+  messageType: t.Optional(messageTypeSchema),
+  tags: t.Optional(tagsSchema),
+  metadata: t.Optional(metadataSchema),
+  envelope: t.Optional(envelopeSchema),
+  scheduledAt: t.Optional(t.String()),
+  strict: t.Optional(t.Boolean()),
+});
+
+// Send route plugin
+export const sendRoute = new Elysia({ name: 'send-route' })
+  .use(authMiddleware)
+  .post(
+    '/send',
+    async ({ auth, body, set, headers }) => {
+      // Type guard for auth (should never fail due to middleware)
+      if (!auth) {
+        set.status = 401;
+        return { error: 'Unauthorized', message: 'Authentication required' };
+      }
+
+      // Replay or reject retried requests carrying an Idempotency-Key
+      return withIdempotency(auth.apiKey.id, headers['idempotency-key'], body, set, async () => {
+        // Parse variables (handles both JSON string from form-data and object from JSON body)
+        const variables = parseVariables(body.variables);
+
+        // Decode and validate attachments (JSON base64 or multipart files)
+        const parsedAttachments = await parseAttachments(body.attachments);
+        if ('error' in parsedAttachments) {
+          set.status = 400;
+          return { error: 'Bad Request', message: parsedAttachments.error };
+        }
+
+        console.log('Request body:', {
+          ...body,
+          variables,
+          attachments: parsedAttachments.attachments.map(a => ({ filename: a.filename, size: a.content.length })),
+        });
+
+        const quota = getQuotaState(auth);
+        let result;
+        try {
+          result = await queueEmail(
+            auth,
+            { ...body, variables, attachments: parsedAttachments.attachments },
+            quota
+          );
+        } finally {
+          // Increment email used counter (including messages queued before an error)
+          await commitQuotaUsage(auth, quota);
+        }
+
+        if (!result.success) {
+          const { statusCode, success, details, ...error } = result;
+          set.status = statusCode;
+          return { ...error, ...details };
+        }
+
+        return result;
+      });
     },
     {
       body: t.Object({
         from: t.String({ minLength: 1 }),
-        to: t.Union([t.String({ minLength: 1 }), t.Array(t.String({ minLength: 1 }))]),
+        to: recipientsSchema,
+        cc: t.Optional(recipientsSchema),
+        bcc: t.Optional(recipientsSchema),
         subject: t.Optional(t.String()),
         html: t.Optional(t.String()),
         text: t.Optional(t.String()),
         templateId: t.Optional(t.String()),
-        variables: t.Optional(t.Union([t.String(), t.Record(t.String(), t.String())])),
+        templateVersion: t.Optional(t.Integer({ minimum: 1 })),
+        locale: t.Optional(t.String()),
+        variables: t.Optional(t.Union([t.String(), t.Record(t.String(), t.Unknown())])),
         headers: t.Optional(t.Record(t.String(), t.String())),
         replyTo: t.Optional(t.String()),
         disableTracking: t.Optional(t.Boolean()),
+        tracking: t.Optional(trackingSchema),
+        autoText: t.Optional(t.Boolean()),
+        messageType: t.Optional(messageTypeSchema),
+        tags: t.Optional(tagsSchema),
+        metadata: t.Optional(metadataSchema),
+        envelope: t.Optional(envelopeSchema),
+        scheduledAt: t.Optional(t.String()),
+        strict: t.Optional(t.Boolean()),
+        attachments: t.Optional(
+          t.Union([
+            t.String(), // JSON array from form-data
+            t.File(),
+            t.Array(t.Union([attachmentSchema, t.File()])),
+          ])
+        ),
       }),
       detail: {
         summary: 'Send Email',
-        description: 'Send an email via HTTP API. Supports templates and variable substitution.',
+        description: 'Send an email via HTTP API. Supports templates and variable substitution. Multiple recipients each get their own message unless envelope is "shared". Set scheduledAt to deliver later (up to 30 days). Set locale to render a localized template variant (e.g. id-ID, falling back to id, then the default content). A plain-text part is generated from the HTML unless text is provided or autoText is false. messageType (transactional or marketing) defaults to the type of the template category, otherwise marketing: marketing mail honours unsubscribes and category opt-outs and every recipient gets their own copy with List-Unsubscribe headers, while transactional mail skips unsubscribes (not bounces or complaints) and is queued at a higher priority. tags (up to 10) and metadata (up to 20 keys, 2 KB) are stored on every event of the message and can be used to filter /events. tracking: { opens, clicks } overrides the domain tracking defaults; links with data-track="false" are never wrapped. Attachments can be sent as base64 JSON or multipart files. Send an Idempotency-Key header to make retries safe.',
+        tags: ['Email'],
+      },
+    }
+  )
+  // Send many messages in one request
+  // Top-level fields act as defaults; each message can override them and
+  // its variables are merged over the shared ones
+  .post(
+    '/send/batch',
+    async ({ auth, body, set, headers }) => {
+      if (!auth) {
+        set.status = 401;
+        return { error: 'Unauthorized', message: 'Authentication required' };
+      }
+
+      // Replay or reject retried requests carrying an Idempotency-Key
+      return withIdempotency(auth.apiKey.id, headers['idempotency-key'], body, set, async () => {
+        const { messages, variables: sharedVariables, ...defaults } = body;
+
+        if (messages.length > MAX_BATCH_SIZE) {
+          set.status = 400;
+          return { error: 'Bad Request', message: `A batch may contain at most ${MAX_BATCH_SIZE} messages` };
+        }
+
+        const quota = getQuotaState(auth);
+        const results = [];
+        let queued = 0;
+
+        for (const [index, message] of messages.entries()) {
+          const from = message.from ?? defaults.from;
+          if (!from) {
+            results.push({ index, success: false, error: 'Bad Request', message: 'FROM address is required' });
+            continue;
+          }
+
+          try {
+            const result = await queueEmail(
+              auth,
+              {
+                ...defaults,
+                ...message,
+                from,
+                variables: { ...sharedVariables, ...message.variables },
+              },
+              quota
+            );
+
+            if (result.success) {
+              queued++;
+              results.push({ index, ...result });
+            } else {
+              const { statusCode, details, ...error } = result;
+              results.push({ index, ...error, ...details });
+            }
+          } catch (error: any) {
+            console.error(`Batch send failed for message ${index}:`, error);
+            results.push({ index, success: false, error: 'Internal Error', message: error.message || 'Failed to queue message' });
+          }
+        }
+
+        // Increment email used counter once for the whole batch
+        await commitQuotaUsage(auth, quota);
+
+        return {
+          success: queued > 0,
+          total: messages.length,
+          queued,
+          failed: messages.length - queued,
+          results,
+        };
+      });
+    },
+    {
+      body: t.Object({
+        from: t.Optional(t.String({ minLength: 1 })),
+        cc: t.Optional(recipientsSchema),
+        bcc: t.Optional(recipientsSchema),
+        subject: t.Optional(t.String()),
+        html: t.Optional(t.String()),
+        text: t.Optional(t.String()),
+        templateId: t.Optional(t.String()),
+        templateVersion: t.Optional(t.Integer({ minimum: 1 })),
+        locale: t.Optional(t.String()),
+        variables: t.Optional(t.Record(t.String(), t.Unknown())),
+        headers: t.Optional(t.Record(t.String(), t.String())),
+        replyTo: t.Optional(t.String()),
+        disableTracking: t.Optional(t.Boolean()),
+        tracking: t.Optional(trackingSchema),
+        autoText: t.Optional(t.Boolean()),
+        messageType: t.Optional(messageTypeSchema),
+        tags: t.Optional(tagsSchema),
+        metadata: t.Optional(metadataSchema),
+        envelope: t.Optional(envelopeSchema),
+        scheduledAt: t.Optional(t.String()),
+        strict: t.Optional(t.Boolean()),
+        messages: t.Array(batchMessageSchema, { minItems: 1 }),
+      }),
+      detail: {
+        summary: 'Send Email Batch',
+        description: `Send up to ${MAX_BATCH_SIZE} emails in one request, each with its own recipients and variables. Returns a result per message. Supports the Idempotency-Key header.`,
         tags: ['Email'],
       },
     }
@@ -1,8 +1,9 @@
 import { Elysia, t } from 'elysia';
-import { and, eq, desc, like, sql, inArray } from 'drizzle-orm';
+import { and, eq, desc, like, sql, inArray, isNull, isNotNull } from 'drizzle-orm';
 import { nanoid } from 'nanoid';
-import { db, emailSuppression, domain } from '../db';
+import { db, emailSuppression, emailTemplateCategory, domain } from '../db';
 import { authMiddleware, type AuthContext } from '../middleware/auth';
+import type { MessageType } from '../queues';
 
 // Valid suppression reasons
 const SUPPRESSION_REASONS = ['hard_bounce', 'soft_bounce', 'complaint', 'unsubscribe', 'manual'] as const;
@@ -11,12 +12,22 @@ type SuppressionReason = typeof SUPPRESSION_REASONS[number];
 // Helper function to check if emails are suppressed
 // Checks both global suppression (domainId = null) and domain-specific suppression
 // Note: soft_bounce does NOT block - only hard_bounce, complaint, unsubscribe, manual
+// Category opt-outs (categoryId set) only block mail sent from a template in that category
+// Transactional mail ignores unsubscribes (including category opt-outs)
 const BLOCKING_REASONS = ['hard_bounce', 'complaint', 'unsubscribe', 'manual'] as const;
+const TRANSACTIONAL_BLOCKING_REASONS = BLOCKING_REASONS.filter(r => r !== 'unsubscribe');
 
-export async function checkSuppression(userId: string, emails: string[], domainId?: string): Promise<string[]> {
+export async function checkSuppression(
+  userId: string,
+  emails: string[],
+  domainId?: string,
+  categoryId?: string | null,
+  messageType: MessageType = 'marketing'
+): Promise<string[]> {
   if (emails.length === 0) return [];
   
   const normalizedEmails = emails.map(e => e.toLowerCase());
+  const reasons = messageType === 'transactional' ? TRANSACTIONAL_BLOCKING_REASONS : BLOCKING_REASONS;
   
   // Query: match userId + email AND blocking reason AND (domainId is null OR domainId matches)
   // soft_bounce is NOT included - it's tracked but doesn't block sending
@@ -27,51 +38,92 @@ export async function checkSuppression(userId: string, emails: string[], domainI
       and(
         eq(emailSuppression.userId, userId),
         inArray(emailSuppression.email, normalizedEmails),
-        inArray(emailSuppression.reason, BLOCKING_REASONS as any),
+        inArray(emailSuppression.reason, reasons as any),
         domainId 
           ? sql`(${emailSuppression.domainId} IS NULL OR ${emailSuppression.domainId} = ${domainId})`
-          : sql`${emailSuppression.domainId} IS NULL`
+          : sql`${emailSuppression.domainId} IS NULL`,
+        categoryId
+          ? sql`(${emailSuppression.categoryId} IS NULL OR ${emailSuppression.categoryId} = ${categoryId})`
+          : isNull(emailSuppression.categoryId)
       )
     );
   
-  return suppressions.map(s => s.email);
+  return [...new Set(suppressions.map(s => s.email))];
 }
 
-// Helper function to add email to suppression list
-export async function addToSuppression(
+// Add an address to the suppression list for a domain scope (domainId) or account-wide
+// Nothing changes when an entry for the scope, or an account-wide one, already blocks
+// at least as much mail (an unsubscribe doesn't cover a bounce or complaint, since
+// transactional mail ignores unsubscribes). A weaker entry for the same scope
+// (e.g. soft_bounce) is upgraded. Category opt-outs are tracked separately
+export async function upsertSuppression(
   userId: string,
   email: string,
   reason: SuppressionReason,
   sourceEventId?: string,
   domainId?: string,
   metadata?: Record<string, unknown>
-): Promise<{ id: string; email: string; reason: string }> {
+): Promise<{ id: string; email: string; reason: string; alreadyExists: boolean }> {
   const normalizedEmail = email.toLowerCase().trim();
-  
-  // Check if already suppressed
-  const existing = await db.query.emailSuppression.findFirst({
+  const coveringReasons: SuppressionReason[] = reason === 'unsubscribe'
+    ? [...BLOCKING_REASONS]
+    : TRANSACTIONAL_BLOCKING_REASONS;
+
+  const entries = await db.query.emailSuppression.findMany({
     where: and(
       eq(emailSuppression.userId, userId),
-      eq(emailSuppression.email, normalizedEmail)
+      eq(emailSuppression.email, normalizedEmail),
+      isNull(emailSuppression.categoryId),
+      domainId
+        ? sql`(${emailSuppression.domainId} IS NULL OR ${emailSuppression.domainId} = ${domainId})`
+        : isNull(emailSuppression.domainId)
     )
   });
-  
-  if (existing) {
-    return { id: existing.id, email: existing.email, reason: existing.reason };
+
+  const covering = entries.find(entry => coveringReasons.includes(entry.reason));
+  if (covering) {
+    return { id: covering.id, email: normalizedEmail, reason: covering.reason, alreadyExists: true };
   }
-  
+
+  const values = {
+    reason,
+    sourceEventId: sourceEventId || null,
+    metadata: metadata ? JSON.stringify(metadata) : null,
+  };
+
+  // One entry per scope: upgrade the weaker one
+  const sameScope = entries.find(entry => entry.domainId === (domainId || null));
+  if (sameScope) {
+    await db
+      .update(emailSuppression)
+      .set({ ...values, createdAt: new Date() })
+      .where(eq(emailSuppression.id, sameScope.id));
+    return { id: sameScope.id, email: normalizedEmail, reason, alreadyExists: false };
+  }
+
   const id = nanoid();
   await db.insert(emailSuppression).values({
     id,
     userId,
     domainId: domainId || null,
     email: normalizedEmail,
-    reason,
-    sourceEventId: sourceEventId || null,
-    metadata: metadata ? JSON.stringify(metadata) : null,
+    ...values,
   });
-  
-  return { id, email: normalizedEmail, reason };
+
+  return { id, email: normalizedEmail, reason, alreadyExists: false };
+}
+
+// Helper function to add email to suppression list
+export async function addToSuppression(
+  userId: string,
+  email: string,
+  reason: SuppressionReason,
+  sourceEventId?: string,
+  domainId?: string,
+  metadata?: Record<string, unknown>
+): Promise<{ id: string; email: string; reason: string }> {
+  const { alreadyExists, ...result } = await upsertSuppression(userId, email, reason, sourceEventId, domainId, metadata);
+  return result;
 }
 
 // Threshold for upgrading soft_bounce to hard_bounce
@@ -88,11 +140,12 @@ export async function handleSoftBounce(
 ): Promise<{ id: string; email: string; reason: string; upgraded: boolean }> {
   const normalizedEmail = email.toLowerCase().trim();
   
-  // Check if already has a suppression entry
+  // Check if already has a suppression entry (ignoring category opt-outs)
   const existing = await db.query.emailSuppression.findFirst({
     where: and(
       eq(emailSuppression.userId, userId),
-      eq(emailSuppression.email, normalizedEmail)
+      eq(emailSuppression.email, normalizedEmail),
+      isNull(emailSuppression.categoryId)
     )
   });
   
@@ -164,6 +217,96 @@ export async function handleSoftBounce(
   return { id, email: normalizedEmail, reason: 'soft_bounce', upgraded: false };
 }
 
+// Get a recipient's subscription state for a sending domain
+// (used by the hosted preference page)
+export async function getSubscriptionState(
+  userId: string,
+  email: string,
+  domainId: string
+): Promise<{ unsubscribedAll: boolean; unsubscribedAccountWide: boolean; optedOutCategoryIds: string[] }> {
+  const rows = await db
+    .select({ domainId: emailSuppression.domainId, categoryId: emailSuppression.categoryId })
+    .from(emailSuppression)
+    .where(
+      and(
+        eq(emailSuppression.userId, userId),
+        eq(emailSuppression.email, email.toLowerCase().trim()),
+        eq(emailSuppression.reason, 'unsubscribe'),
+        sql`(${emailSuppression.domainId} IS NULL OR ${emailSuppression.domainId} = ${domainId})`
+      )
+    );
+
+  return {
+    unsubscribedAll: rows.some(r => r.categoryId === null),
+    // Account-wide entries can't be lifted from one domain's preference page
+    unsubscribedAccountWide: rows.some(r => r.domainId === null && r.categoryId === null),
+    optedOutCategoryIds: rows.flatMap(r => (r.categoryId ? [r.categoryId] : [])),
+  };
+}
+
+// Replace a recipient's category opt-outs for a sending domain
+// Returns the category IDs that were newly opted out of
+export async function setCategoryOptOuts(
+  userId: string,
+  email: string,
+  domainId: string,
+  categoryIds: string[],
+  metadata?: Record<string, unknown>
+): Promise<string[]> {
+  const normalizedEmail = email.toLowerCase().trim();
+  const scope = and(
+    eq(emailSuppression.userId, userId),
+    eq(emailSuppression.email, normalizedEmail),
+    eq(emailSuppression.domainId, domainId),
+    eq(emailSuppression.reason, 'unsubscribe'),
+    isNotNull(emailSuppression.categoryId)
+  );
+
+  const existing = await db
+    .select({ id: emailSuppression.id, categoryId: emailSuppression.categoryId })
+    .from(emailSuppression)
+    .where(scope);
+
+  // Opted back in
+  const removed = existing.filter(r => !categoryIds.includes(r.categoryId!));
+  if (removed.length > 0) {
+    await db.delete(emailSuppression).where(inArray(emailSuppression.id, removed.map(r => r.id)));
+  }
+
+  const added = categoryIds.filter(id => !existing.some(r => r.categoryId === id));
+  if (added.length > 0) {
+    await db.insert(emailSuppression).values(
+      added.map(categoryId => ({
+        id: nanoid(),
+        userId,
+        domainId,
+        categoryId,
+        email: normalizedEmail,
+        reason: 'unsubscribe' as const,
+        metadata: metadata ? JSON.stringify(metadata) : null,
+      }))
+    );
+  }
+
+  return added;
+}
+
+// Remove a recipient's unsubscribe-all entry for a sending domain
+// (bounces, complaints, manual suppressions and account-wide entries are left in place)
+export async function resubscribe(userId: string, email: string, domainId: string): Promise<void> {
+  await db
+    .delete(emailSuppression)
+    .where(
+      and(
+        eq(emailSuppression.userId, userId),
+        eq(emailSuppression.email, email.toLowerCase().trim()),
+        eq(emailSuppression.reason, 'unsubscribe'),
+        isNull(emailSuppression.categoryId),
+        eq(emailSuppression.domainId, domainId)
+      )
+    );
+}
+
 // Helper function to remove from suppression list
 export async function removeFromSuppression(userId: string, id: string): Promise<boolean> {
   const result = await db
@@ -196,6 +339,7 @@ export const suppressionRoute = new Elysia({ name: 'suppression-route' })
         reason,
         email,
         domainId,
+        categoryId,
       } = query;
 
       // Parse pagination
@@ -218,6 +362,10 @@ export const suppressionRoute = new Elysia({ name: 'suppression-route' })
         conditions.push(eq(emailSuppression.domainId, domainId));
       }
 
+      if (categoryId) {
+        conditions.push(eq(emailSuppression.categoryId, categoryId));
+      }
+
       // Query suppressions
       const suppressions = await db.query.emailSuppression.findMany({
         where: and(...conditions),
@@ -231,6 +379,12 @@ export const suppressionRoute = new Elysia({ name: 'suppression-route' })
               name: true,
             },
           },
+          category: {
+            columns: {
+              id: true,
+              name: true,
+            },
+          },
         },
       });
 
@@ -249,6 +403,7 @@ export const suppressionRoute = new Elysia({ name: 'suppression-route' })
           email: s.email,
           reason: s.reason,
           domain: s.domain ? { id: s.domain.id, name: s.domain.name } : null,
+          category: s.category ? { id: s.category.id, name: s.category.name } : null,
           sourceEventId: s.sourceEventId,
           metadata: s.metadata ? JSON.parse(s.metadata) : null,
           createdAt: s.createdAt.toISOString(),
@@ -270,6 +425,7 @@ export const suppressionRoute = new Elysia({ name: 'suppression-route' })
         reason: t.Optional(t.String()),
         email: t.Optional(t.String()),
         domainId: t.Optional(t.String()),
+        categoryId: t.Optional(t.String()),
       }),
       detail: {
         summary: 'List Suppressed Emails',
@@ -0,0 +1,298 @@
+import { Elysia, t } from 'elysia';
+import { and, eq, asc, sql } from 'drizzle-orm';
+import { nanoid } from 'nanoid';
+import { db, emailTemplate, emailTemplateCategory, emailSuppression, type EmailTemplateCategory } from '../db';
+import { authMiddleware } from '../middleware/auth';
+import { logActivity } from '../lib/activity';
+
+// Categories are shown with a hex color in the dashboard
+const COLOR_REGEX = /^#[0-9a-fA-F]{6}$/;
+
+const messageTypeSchema = t.Union([t.Literal('transactional'), t.Literal('marketing')]);
+
+async function findCategory(userId: string, id: string) {
+  return db.query.emailTemplateCategory.findFirst({
+    where: and(eq(emailTemplateCategory.id, id), eq(emailTemplateCategory.userId, userId)),
+  });
+}
+
+// Count templates in a category
+async function countTemplates(categoryId: string): Promise<number> {
+  const result = await db
+    .select({ count: sql<number>`count(*)` })
+    .from(emailTemplate)
+    .where(eq(emailTemplate.categoryId, categoryId));
+  return Number(result[0]?.count ?? 0);
+}
+
+function serializeCategory(category: EmailTemplateCategory, templateCount: number) {
+  return {
+    id: category.id,
+    name: category.name,
+    description: category.description,
+    color: category.color,
+    messageType: category.messageType,
+    templateCount,
+    createdAt: category.createdAt.toISOString(),
+    updatedAt: category.updatedAt.toISOString(),
+  };
+}
+
+// Template categories route plugin
+export const templateCategoriesRoute = new Elysia({ name: 'template-categories-route' })
+  .use(authMiddleware)
+  // List categories with template counts
+  .get(
+    '/template-categories',
+    async ({ auth, query, set }) => {
+      if (!auth) {
+        set.status = 401;
+        return { error: 'Unauthorized', message: 'Authentication required' };
+      }
+
+      const { page = '1', limit = '50' } = query;
+
+      // Parse pagination
+      const pageNum = Math.max(1, parseInt(page));
+      const limitNum = Math.min(100, Math.max(1, parseInt(limit)));
+      const offset = (pageNum - 1) * limitNum;
+
+      const categories = await db
+        .select({
+          category: emailTemplateCategory,
+          templateCount: sql<number>`(select count(*) from ${emailTemplate} where ${emailTemplate.categoryId} = ${emailTemplateCategory.id})`,
+        })
+        .from(emailTemplateCategory)
+        .where(eq(emailTemplateCategory.userId, auth.user.id))
+        .orderBy(asc(emailTemplateCategory.name))
+        .limit(limitNum)
+        .offset(offset);
+
+      // Get total count
+      const countResult = await db
+        .select({ count: sql<number>`count(*)` })
+        .from(emailTemplateCategory)
+        .where(eq(emailTemplateCategory.userId, auth.user.id));
+
+      const total = Number(countResult[0]?.count ?? 0);
+      const totalPages = Math.ceil(total / limitNum);
+
+      return {
+        data: categories.map(({ category, templateCount }) =>
+          serializeCategory(category, Number(templateCount))
+        ),
+        pagination: {
+          page: pageNum,
+          limit: limitNum,
+          total,
+          totalPages,
+          hasNext: pageNum < totalPages,
+          hasPrev: pageNum > 1,
+        },
+      };
+    },
+    {
+      query: t.Object({
+        page: t.Optional(t.String()),
+        limit: t.Optional(t.String()),
+      }),
+      detail: {
+        summary: 'List Template Categories',
+        description: 'List template categories with the number of templates in each.',
+        tags: ['Templates'],
+      },
+    }
+  )
+  // Get a single category
+  .get(
+    '/template-categories/:id',
+    async ({ auth, params, set }) => {
+      if (!auth) {
+        set.status = 401;
+        return { error: 'Unauthorized', message: 'Authentication required' };
+      }
+
+      const category = await findCategory(auth.user.id, params.id);
+      if (!category) {
+        set.status = 404;
+        return { error: 'Not Found', message: 'Category not found' };
+      }
+
+      return serializeCategory(category, await countTemplates(category.id));
+    },
+    {
+      params: t.Object({
+        id: t.String(),
+      }),
+      detail: {
+        summary: 'Get Template Category',
+        tags: ['Templates'],
+      },
+    }
+  )
+  // Create a category
+  .post(
+    '/template-categories',
+    async ({ auth, body, set, request }) => {
+      if (!auth) {
+        set.status = 401;
+        return { error: 'Unauthorized', message: 'Authentication required' };
+      }
+
+      if (body.color && !COLOR_REGEX.test(body.color)) {
+        set.status = 400;
+        return { error: 'Bad Request', message: 'Color must be a hex value like #6366f1' };
+      }
+
+      const id = nanoid();
+      await db.insert(emailTemplateCategory).values({
+        id,
+        userId: auth.user.id,
+        name: body.name,
+        description: body.description ?? null,
+        ...(body.color && { color: body.color }),
+        ...(body.messageType && { messageType: body.messageType }),
+      });
+
+      await logActivity({
+        userId: auth.user.id,
+        type: 'template_category.created',
+        action: 'created',
+        resourceType: 'template_category',
+        resourceId: id,
+        resourceName: body.name,
+        metadata: { source: 'api', apiKeyId: auth.apiKey.id },
+        request,
+      });
+
+      const category = await findCategory(auth.user.id, id);
+      set.status = 201;
+      return serializeCategory(category!, 0);
+    },
+    {
+      body: t.Object({
+        name: t.String({ minLength: 1, maxLength: 100 }),
+        description: t.Optional(t.String({ maxLength: 500 })),
+        color: t.Optional(t.String()),
+        messageType: t.Optional(messageTypeSchema),
+      }),
+      detail: {
+        summary: 'Create Template Category',
+        description: 'messageType (default marketing) is the default for mail sent from templates in the category. Marketing categories are listed on the unsubscribe preference page.',
+        tags: ['Templates'],
+      },
+    }
+  )
+  // Update a category
+  .patch(
+    '/template-categories/:id',
+    async ({ auth, params, body, set, request }) => {
+      if (!auth) {
+        set.status = 401;
+        return { error: 'Unauthorized', message: 'Authentication required' };
+      }
+
+      const existing = await findCategory(auth.user.id, params.id);
+      if (!existing) {
+        set.status = 404;
+        return { error: 'Not Found', message: 'Category not found' };
+      }
+
+      if (body.color && !COLOR_REGEX.test(body.color)) {
+        set.status = 400;
+        return { error: 'Bad Request', message: 'Color must be a hex value like #6366f1' };
+      }
+
+      await db
+        .update(emailTemplateCategory)
+        .set({
+          ...(body.name !== undefined && { name: body.name }),
+          ...(body.description !== undefined && { description: body.description }),
+          ...(body.color !== undefined && { color: body.color }),
+          ...(body.messageType !== undefined && { messageType: body.messageType }),
+          updatedAt: new Date(),
+        })
+        .where(eq(emailTemplateCategory.id, existing.id));
+
+      await logActivity({
+        userId: auth.user.id,
+        type: 'template_category.updated',
+        action: 'updated',
+        resourceType: 'template_category',
+        resourceId: existing.id,
+        resourceName: body.name ?? existing.name,
+        metadata: { fields: Object.keys(body), source: 'api', apiKeyId: auth.apiKey.id },
+        request,
+      });
+
+      const category = await findCategory(auth.user.id, existing.id);
+      return serializeCategory(category!, await countTemplates(existing.id));
+    },
+    {
+      params: t.Object({
+        id: t.String(),
+      }),
+      body: t.Object({
+        name: t.Optional(t.String({ minLength: 1, maxLength: 100 })),
+        description: t.Optional(t.Nullable(t.String({ maxLength: 500 }))),
+        color: t.Optional(t.String()),
+        messageType: t.Optional(messageTypeSchema),
+      }),
+      detail: {
+        summary: 'Update Template Category',
+        tags: ['Templates'],
+      },
+    }
+  )
+  // Delete a category (its templates become uncategorized)
+  .delete(
+    '/template-categories/:id',
+    async ({ auth, params, set, request }) => {
+      if (!auth) {
+        set.status = 401;
+        return { error: 'Unauthorized', message: 'Authentication required' };
+      }
+
+      const existing = await findCategory(auth.user.id, params.id);
+      if (!existing) {
+        set.status = 404;
+        return { error: 'Not Found', message: 'Category not found' };
+      }
+
+      await db.transaction(async (tx) => {
+        await tx
+          .update(emailTemplate)
+          .set({ categoryId: null, updatedAt: new Date() })
+          .where(eq(emailTemplate.categoryId, existing.id));
+        // Opt-outs from a category that no longer exists mean nothing
+        await tx.delete(emailSuppression).where(eq(emailSuppression.categoryId, existing.id));
+        await tx.delete(emailTemplateCategory).where(eq(emailTemplateCategory.id, existing.id));
+      });
+
+      await logActivity({
+        userId: auth.user.id,
+        type: 'template_category.deleted',
+        action: 'deleted',
+        resourceType: 'template_category',
+        resourceId: existing.id,
+        resourceName: existing.name,
+        metadata: { source: 'api', apiKeyId: auth.apiKey.id },
+        request,
+      });
+
+      return {
+        success: true,
+        message: `Category ${existing.name} deleted`,
+      };
+    },
+    {
+      params: t.Object({
+        id: t.String(),
+      }),
+      detail: {
+        summary: 'Delete Template Category',
+        description: 'Delete a category. Templates in it are kept and become uncategorized; recipient opt-outs from the category are removed.',
+        tags: ['Templates'],
+      },
+    }
+  );
@@ -0,0 +1,1182 @@
+import { Elysia, t } from 'elysia';
+import { and, eq, desc, ilike, or, sql, asc } from 'drizzle-orm';
+import { nanoid } from 'nanoid';
+import {
+  db,
+  emailTemplate,
+  emailTemplateVariable,
+  emailTemplateLocale,
+  emailTemplateCategory,
+  emailTemplateVersion,
+  emailEvent,
+  userBilling,
+  type EmailTemplate,
+  type EmailTemplateVariable,
+  type EmailTemplateLocale,
+} from '../db';
+import { authMiddleware } from '../middleware/auth';
+import { parseTemplate, TemplateError } from '../lib/template';
+import { logActivity } from '../lib/activity';
+import { diffLines } from '../lib/diff';
+import { normalizeLocale } from '../lib/locale';
+import { renderBlocksToHtml, BlockError } from '../lib/blocks';
+import { htmlToText } from '../lib/html-to-text';
+import { renderTemplateForSend } from './send';
+
+// Slugs are used in URLs and API calls: lowercase letters, digits, dashes and underscores
+const SLUG_REGEX = /^[a-z0-9][a-z0-9_-]*$/;
+
+// Variable names must be usable as template paths ({{ name }})
+const VARIABLE_NAME_REGEX = /^[A-Za-z_][\w-]*$/;
+
+const variableSchema = t.Object({
+  name: t.String({ minLength: 1, maxLength: 100 }),
+  label: t.Optional(t.String({ maxLength: 100 })),
+  defaultValue: t.Optional(t.Nullable(t.String({ maxLength: 500 }))),
+  description: t.Optional(t.Nullable(t.String({ maxLength: 255 }))),
+  isRequired: t.Optional(t.Boolean()),
+  sortOrder: t.Optional(t.Integer()),
+});
+
+type VariableInput = typeof variableSchema.static;
+
+// Locale variants keyed by BCP 47 locale (e.g. { "id-ID": {...}, "en": {...} })
+const localesSchema = t.Record(
+  t.String(),
+  t.Object({
+    subject: t.String({ minLength: 1, maxLength: 500 }),
+    htmlContent: t.String({ minLength: 1 }),
+    previewText: t.Optional(t.Nullable(t.String({ maxLength: 200 }))),
+  })
+);
+
+type LocalesInput = typeof localesSchema.static;
+
+// Locale variant content as stored in a version snapshot
+type LocaleSnapshot = Record<string, { subject: string; htmlContent: string; previewText: string | null }>;
+
+// A published version number or the working draft
+const versionSelectorSchema = t.Union([t.Integer({ minimum: 1 }), t.Literal('draft')]);
+
+// Fields compared by the diff endpoint
+const DIFF_FIELDS = ['subject', 'htmlContent', 'previewText', 'variables', 'locales'] as const;
+
+// Find a template owned by the user by ID or slug (including inactive ones)
+async function findTemplate(userId: string, idOrSlug: string) {
+  return db.query.emailTemplate.findFirst({
+    where: and(
+      eq(emailTemplate.userId, userId),
+      or(eq(emailTemplate.id, idOrSlug), eq(emailTemplate.slug, idOrSlug))
+    ),
+    with: {
+      variables: {
+        orderBy: [asc(emailTemplateVariable.sortOrder)],
+      },
+      locales: {
+        orderBy: [asc(emailTemplateLocale.locale)],
+      },
+      category: {
+        columns: {
+          id: true,
+          name: true,
+        },
+      },
+    },
+  });
+}
+
+// Check that subject, HTML and preview text parse as templates
+function validateTemplateSyntax(fields: Record<string, string | null | undefined>): TemplateError | null {
+  for (const [field, source] of Object.entries(fields)) {
+    if (!source) continue;
+    try {
+      parseTemplate(source);
+    } catch (error) {
+      if (error instanceof TemplateError) {
+        return new TemplateError(error.reason, error.line, error.column, field);
+      }
+      throw error;
+    }
+  }
+  return null;
+}
+
+// Template sources of each locale variant, keyed by field name for error reporting
+function localeSyntaxFields(locales: LocalesInput): Record<string, string | null | undefined> {
+  const fields: Record<string, string | null | undefined> = {};
+  for (const [locale, variant] of Object.entries(locales)) {
+    fields[`locales.${locale}.subject`] = variant.subject;
+    fields[`locales.${locale}.html`] = variant.htmlContent;
+    fields[`locales.${locale}.previewText`] = variant.previewText;
+  }
+  return fields;
+}
+
+// Work out the HTML and design to store for a save
+// A block design (jsonContent) is compiled into htmlContent so the two can't
+// drift apart; saving hand-written HTML detaches the template from its design
+function resolveContent(
+  htmlContent: string | undefined,
+  jsonContent: unknown
+):
+  | { htmlContent?: string; jsonContent?: string | null }
+  | { status: number; error: string; message: string; path?: string } {
+  if (jsonContent !== undefined && jsonContent !== null) {
+    if (htmlContent !== undefined) {
+      return { status: 400, error: 'Bad Request', message: 'Provide either htmlContent or jsonContent, not both' };
+    }
+    try {
+      return { htmlContent: renderBlocksToHtml(jsonContent), jsonContent: JSON.stringify(jsonContent) };
+    } catch (error) {
+      if (error instanceof BlockError) {
+        return { status: 422, error: 'Invalid Design', message: error.message, path: error.path };
+      }
+      throw error;
+    }
+  }
+
+  if (htmlContent !== undefined) {
+    return { htmlContent, jsonContent: null };
+  }
+  if (jsonContent === null) {
+    return { jsonContent: null };
+  }
+  return {};
+}
+
+// Validate variable definitions, returning an error message if invalid
+function validateVariables(variables: VariableInput[]): string | null {
+  const names = new Set<string>();
+  for (const variable of variables) {
+    if (!VARIABLE_NAME_REGEX.test(variable.name)) {
+      return `Invalid variable name "${variable.name}". Use letters, digits, dashes and underscores`;
+    }
+    if (names.has(variable.name)) {
+      return `Duplicate variable "${variable.name}"`;
+    }
+    names.add(variable.name);
+  }
+  return null;
+}
+
+// Canonicalize locale keys, returning an error message if any is invalid
+function normalizeLocales(locales: LocalesInput): { locales: LocalesInput } | { error: string } {
+  const normalized: LocalesInput = {};
+  for (const [key, variant] of Object.entries(locales)) {
+    const locale = normalizeLocale(key);
+    if (!locale) {
+      return { error: `Invalid locale "${key}". Use a BCP 47 tag such as "id-ID" or "en"` };
+    }
+    if (normalized[locale]) {
+      return { error: `Duplicate locale "${locale}"` };
+    }
+    normalized[locale] = variant;
+  }
+  return { locales: normalized };
+}
+
+// Check whether a slug is already used by another of the user's templates
+async function isSlugTaken(userId: string, slug: string, excludeId?: string): Promise<boolean> {
+  const existing = await db.query.emailTemplate.findFirst({
+    where: and(eq(emailTemplate.userId, userId), eq(emailTemplate.slug, slug)),
+    columns: { id: true },
+  });
+  return !!existing && existing.id !== excludeId;
+}
+
+// Check that a category exists and belongs to the user
+async function categoryExists(userId: string, categoryId: string): Promise<boolean> {
+  const category = await db.query.emailTemplateCategory.findFirst({
+    where: and(eq(emailTemplateCategory.id, categoryId), eq(emailTemplateCategory.userId, userId)),
+    columns: { id: true },
+  });
+  return !!category;
+}
+
+function serializeVariable(variable: EmailTemplateVariable) {
+  return {
+    id: variable.id,
+    name: variable.name,
+    label: variable.label,
+    defaultValue: variable.defaultValue,
+    description: variable.description,
+    isRequired: variable.isRequired ?? false,
+    sortOrder: variable.sortOrder ?? 0,
+  };
+}
+
+// Locale variants as an object keyed by locale
+function snapshotLocales(locales: EmailTemplateLocale[]): LocaleSnapshot {
+  return Object.fromEntries(
+    locales.map(({ locale, subject, htmlContent, previewText }) => [locale, { subject, htmlContent, previewText }])
+  );
+}
+
+function serializeTemplate(
+  template: EmailTemplate & {
+    variables?: EmailTemplateVariable[];
+    locales?: EmailTemplateLocale[];
+    category?: { id: string; name: string } | null;
+  }
+) {
+  return {
+    id: template.id,
+    slug: template.slug,
+    name: template.name,
+    subject: template.subject,
+    htmlContent: template.htmlContent,
+    jsonContent: template.jsonContent ? JSON.parse(template.jsonContent) : null,
+    previewText: template.previewText,
+    isActive: template.isActive,
+    publishedVersion: template.publishedVersion,
+    publishedAt: template.publishedAt?.toISOString() ?? null,
+    category: template.category ? { id: template.category.id, name: template.category.name } : null,
+    variables: template.variables?.map(serializeVariable) ?? [],
+    locales: snapshotLocales(template.locales ?? []),
+    createdAt: template.createdAt.toISOString(),
+    updatedAt: template.updatedAt.toISOString(),
+  };
+}
+
+// Variable definitions as stored in a version snapshot
+function snapshotVariables(variables: EmailTemplateVariable[]): string {
+  return JSON.stringify(
+    variables.map(({ name, label, defaultValue, description, isRequired, sortOrder }) => ({
+      name,
+      label,
+      defaultValue,
+      description,
+      isRequired: isRequired ?? false,
+      sortOrder: sortOrder ?? 0,
+    }))
+  );
+}
+
+// Snapshot the current draft as a new immutable version and publish it
+async function publishDraft(
+  template: EmailTemplate & { variables: EmailTemplateVariable[]; locales: EmailTemplateLocale[] },
+  note?: string
+): Promise<number> {
+  return db.transaction(async (tx) => {
+    const latest = await tx
+      .select({ version: sql<number>`coalesce(max(${emailTemplateVersion.version}), 0)` })
+      .from(emailTemplateVersion)
+      .where(eq(emailTemplateVersion.templateId, template.id));
+    const version = Number(latest[0]?.version ?? 0) + 1;
+
+    await tx.insert(emailTemplateVersion).values({
+      id: nanoid(),
+      templateId: template.id,
+      version,
+      subject: template.subject,
+      htmlContent: template.htmlContent,
+      jsonContent: template.jsonContent,
+      previewText: template.previewText,
+      variables: snapshotVariables(template.variables),
+      locales: JSON.stringify(snapshotLocales(template.locales)),
+      note: note ?? null,
+    });
+
+    await tx
+      .update(emailTemplate)
+      .set({ publishedVersion: version, publishedAt: new Date() })
+      .where(eq(emailTemplate.id, template.id));
+
+    return version;
+  });
+}
+
+// Load the diffable content of a version (or the draft)
+async function loadVersionContent(
+  template: EmailTemplate & { variables: EmailTemplateVariable[]; locales: EmailTemplateLocale[] },
+  selector: number | 'draft'
+): Promise<Record<(typeof DIFF_FIELDS)[number], string> | null> {
+  if (selector === 'draft') {
+    return {
+      subject: template.subject,
+      htmlContent: template.htmlContent,
+      previewText: template.previewText ?? '',
+      variables: JSON.stringify(JSON.parse(snapshotVariables(template.variables)), null, 2),
+      locales: JSON.stringify(snapshotLocales(template.locales), null, 2),
+    };
+  }
+
+  const version = await db.query.emailTemplateVersion.findFirst({
+    where: and(eq(emailTemplateVersion.templateId, template.id), eq(emailTemplateVersion.version, selector)),
+  });
+  if (!version) return null;
+
+  return {
+    subject: version.subject,
+    htmlContent: version.htmlContent,
+    previewText: version.previewText ?? '',
+    variables: JSON.stringify(JSON.parse(version.variables), null, 2),
+    locales: JSON.stringify(version.locales ? JSON.parse(version.locales) : {}, null, 2),
+  };
+}
+
+function toLocaleRows(templateId: string, locales: LocalesInput) {
+  return Object.entries(locales).map(([locale, variant]) => ({
+    id: nanoid(),
+    templateId,
+    locale,
+    subject: variant.subject,
+    htmlContent: variant.htmlContent,
+    previewText: variant.previewText ?? null,
+  }));
+}
+
+function toVariableRows(templateId: string, variables: VariableInput[]) {
+  return variables.map((variable, index) => ({
+    id: nanoid(),
+    templateId,
+    name: variable.name,
+    label: variable.label || variable.name,
+    defaultValue: variable.defaultValue ?? null,
+    description: variable.description ?? null,
+    isRequired: variable.isRequired ?? false,
+    sortOrder: variable.sortOrder ?? index,
+  }));
+}
+
+// Templates route plugin
+export const templatesRoute = new Elysia({ name: 'templates-route' })
+  .use(authMiddleware)
+  // List templates with filtering and pagination
+  .get(
+    '/templates',
+    async ({ auth, query, set }) => {
+      if (!auth) {
+        set.status = 401;
+        return { error: 'Unauthorized', message: 'Authentication required' };
+      }
+
+      const {
+        page = '1',
+        limit = '20',
+        categoryId,
+        isActive,
+        search,
+      } = query;
+
+      // Parse pagination
+      const pageNum = Math.max(1, parseInt(page));
+      const limitNum = Math.min(100, Math.max(1, parseInt(limit)));
+      const offset = (pageNum - 1) * limitNum;
+
+      // Build where conditions
+      const conditions = [eq(emailTemplate.userId, auth.user.id)];
+
+      if (categoryId) {
+        conditions.push(eq(emailTemplate.categoryId, categoryId));
+      }
+
+      if (isActive === 'true' || isActive === 'false') {
+        conditions.push(eq(emailTemplate.isActive, isActive === 'true'));
+      }
+
+      if (search) {
+        conditions.push(
+          or(
+            ilike(emailTemplate.name, `%${search}%`),
+            ilike(emailTemplate.slug, `%${search}%`)
+          )!
+        );
+      }
+
+      const templates = await db.query.emailTemplate.findMany({
+        where: and(...conditions),
+        orderBy: [desc(emailTemplate.updatedAt)],
+        limit: limitNum,
+        offset,
+        with: {
+          category: {
+            columns: {
+              id: true,
+              name: true,
+            },
+          },
+        },
+      });
+
+      // Get total count
+      const countResult = await db
+        .select({ count: sql<number>`count(*)` })
+        .from(emailTemplate)
+        .where(and(...conditions));
+
+      const total = Number(countResult[0]?.count ?? 0);
+      const totalPages = Math.ceil(total / limitNum);
+
+      return {
+        data: templates.map((template) => ({
+          id: template.id,
+          slug: template.slug,
+          name: template.name,
+          subject: template.subject,
+          previewText: template.previewText,
+          isActive: template.isActive,
+          publishedVersion: template.publishedVersion,
+          category: template.category ? { id: template.category.id, name: template.category.name } : null,
+          createdAt: template.createdAt.toISOString(),
+          updatedAt: template.updatedAt.toISOString(),
+        })),
+        pagination: {
+          page: pageNum,
+          limit: limitNum,
+          total,
+          totalPages,
+          hasNext: pageNum < totalPages,
+          hasPrev: pageNum > 1,
+        },
+      };
+    },
+    {
+      query: t.Object({
+        page: t.Optional(t.String()),
+        limit: t.Optional(t.String()),
+        categoryId: t.Optional(t.String()),
+        isActive: t.Optional(t.String()),
+        search: t.Optional(t.String()),
+      }),
+      detail: {
+        summary: 'List Templates',
+        description: 'List email templates with filtering by category, active state and name/slug search.',
+        tags: ['Templates'],
+      },
+    }
+  )
+  // Get a single template with its variable definitions
+  .get(
+    '/templates/:idOrSlug',
+    async ({ auth, params, set }) => {
+      if (!auth) {
+        set.status = 401;
+        return { error: 'Unauthorized', message: 'Authentication required' };
+      }
+
+      const template = await findTemplate(auth.user.id, params.idOrSlug);
+      if (!template) {
+        set.status = 404;
+        return { error: 'Not Found', message: 'Template not found' };
+      }
+
+      return serializeTemplate(template);
+    },
+    {
+      params: t.Object({
+        idOrSlug: t.String(),
+      }),
+      detail: {
+        summary: 'Get Template',
+        description: 'Get a template by ID or slug, including its variable definitions.',
+        tags: ['Templates'],
+      },
+    }
+  )
+  // Create a template
+  .post(
+    '/templates',
+    async ({ auth, body, set, request }) => {
+      if (!auth) {
+        set.status = 401;
+        return { error: 'Unauthorized', message: 'Authentication required' };
+      }
+
+      const { variables = [], publish = true, ...fields } = body;
+
+      // Enforce the plan's template limit
+      const billing = await db.query.userBilling.findFirst({
+        where: eq(userBilling.userId, auth.user.id),
+      });
+      if (billing?.templateLimit !== null && billing?.templateLimit !== undefined) {
+        const countResult = await db
+          .select({ count: sql<number>`count(*)` })
+          .from(emailTemplate)
+          .where(eq(emailTemplate.userId, auth.user.id));
+
+        if (Number(countResult[0]?.count ?? 0) >= billing.templateLimit) {
+          set.status = 403;
+          return {
+            error: 'Limit Reached',
+            message: `Template limit reached (${billing.templateLimit}). Upgrade your plan to create more templates.`,
+          };
+        }
+      }
+
+      if (fields.slug !== undefined) {
+        if (!SLUG_REGEX.test(fields.slug)) {
+          set.status = 400;
+          return { error: 'Bad Request', message: 'Slug may only contain lowercase letters, digits, dashes and underscores' };
+        }
+        if (await isSlugTaken(auth.user.id, fields.slug)) {
+          set.status = 409;
+          return { error: 'Conflict', message: `A template with slug "${fields.slug}" already exists` };
+        }
+      }
+
+      if (fields.categoryId && !(await categoryExists(auth.user.id, fields.categoryId))) {
+        set.status = 400;
+        return { error: 'Bad Request', message: 'Invalid category ID' };
+      }
+
+      const variableError = validateVariables(variables);
+      if (variableError) {
+        set.status = 400;
+        return { error: 'Bad Request', message: variableError };
+      }
+
+      const normalizedLocales = normalizeLocales(body.locales ?? {});
+      if ('error' in normalizedLocales) {
+        set.status = 400;
+        return { error: 'Bad Request', message: normalizedLocales.error };
+      }
+      const locales = normalizedLocales.locales;
+
+      const content = resolveContent(fields.htmlContent, fields.jsonContent);
+      if ('status' in content) {
+        const { status, ...error } = content;
+        set.status = status;
+        return error;
+      }
+      if (!content.htmlContent) {
+        set.status = 400;
+        return { error: 'Bad Request', message: 'Either htmlContent or jsonContent is required' };
+      }
+      const htmlContent = content.htmlContent;
+
+      const syntaxError = validateTemplateSyntax({
+        subject: fields.subject,
+        html: htmlContent,
+        previewText: fields.previewText,
+        ...localeSyntaxFields(locales),
+      });
+      if (syntaxError) {
+        set.status = 422;
+        return {
+          error: 'Template Syntax Error',
+          message: syntaxError.message,
+          field: syntaxError.field,
+          line: syntaxError.line,
+          column: syntaxError.column,
+        };
+      }
+
+      const id = nanoid();
+      await db.transaction(async (tx) => {
+        await tx.insert(emailTemplate).values({
+          id,
+          userId: auth.user.id,
+          categoryId: fields.categoryId ?? null,
+          slug: fields.slug ?? null,
+          name: fields.name,
+          subject: fields.subject,
+          htmlContent,
+          jsonContent: content.jsonContent ?? null,
+          previewText: fields.previewText ?? null,
+          isActive: fields.isActive ?? true,
+        });
+
+        if (variables.length > 0) {
+          await tx.insert(emailTemplateVariable).values(toVariableRows(id, variables));
+        }
+
+        if (Object.keys(locales).length > 0) {
+          await tx.insert(emailTemplateLocale).values(toLocaleRows(id, locales));
+        }
+      });
+
+      // New templates are published as version 1 unless created as a draft
+      let template = await findTemplate(auth.user.id, id);
+      if (publish) {
+        await publishDraft(template!);
+        template = await findTemplate(auth.user.id, id);
+      }
+
+      await logActivity({
+        userId: auth.user.id,
+        type: 'template.created',
+        action: 'created',
+        resourceType: 'template',
+        resourceId: id,
+        resourceName: fields.name,
+        metadata: { slug: fields.slug, publishedVersion: template!.publishedVersion, source: 'api', apiKeyId: auth.apiKey.id },
+        request,
+      });
+
+      set.status = 201;
+      return serializeTemplate(template!);
+    },
+    {
+      body: t.Object({
+        name: t.String({ minLength: 1, maxLength: 100 }),
+        slug: t.Optional(t.String({ minLength: 1, maxLength: 100 })),
+        subject: t.String({ minLength: 1, maxLength: 500 }),
+        htmlContent: t.Optional(t.String({ minLength: 1 })),
+        jsonContent: t.Optional(t.Unknown()),
+        previewText: t.Optional(t.String({ maxLength: 200 })),
+        categoryId: t.Optional(t.String()),
+        isActive: t.Optional(t.Boolean()),
+        variables: t.Optional(t.Array(variableSchema)),
+        locales: t.Optional(localesSchema),
+        publish: t.Optional(t.Boolean()),
+      }),
+      detail: {
+        summary: 'Create Template',
+        description: 'Create an email template with variable definitions. Send either htmlContent or a block design in jsonContent, which is compiled to HTML. It is published as version 1 unless publish is false. Counts against the plan template limit.',
+        tags: ['Templates'],
+      },
+    }
+  )
+  // Update a template (variables, when provided, replace the existing set)
+  .patch(
+    '/templates/:idOrSlug',
+    async ({ auth, params, body, set, request }) => {
+      if (!auth) {
+        set.status = 401;
+        return { error: 'Unauthorized', message: 'Authentication required' };
+      }
+
+      const existing = await findTemplate(auth.user.id, params.idOrSlug);
+      if (!existing) {
+        set.status = 404;
+        return { error: 'Not Found', message: 'Template not found' };
+      }
+
+      const { variables, locales: localesInput, ...fields } = body;
+
+      if (fields.slug !== undefined && fields.slug !== null) {
+        if (!SLUG_REGEX.test(fields.slug)) {
+          set.status = 400;
+          return { error: 'Bad Request', message: 'Slug may only contain lowercase letters, digits, dashes and underscores' };
+        }
+        if (await isSlugTaken(auth.user.id, fields.slug, existing.id)) {
+          set.status = 409;
+          return { error: 'Conflict', message: `A template with slug "${fields.slug}" already exists` };
+        }
+      }
+
+      if (fields.categoryId && !(await categoryExists(auth.user.id, fields.categoryId))) {
+        set.status = 400;
+        return { error: 'Bad Request', message: 'Invalid category ID' };
+      }
+
+      if (variables) {
+        const variableError = validateVariables(variables);
+        if (variableError) {
+          set.status = 400;
+          return { error: 'Bad Request', message: variableError };
+        }
+      }
+
+      let locales: LocalesInput | undefined;
+      if (localesInput) {
+        const normalizedLocales = normalizeLocales(localesInput);
+        if ('error' in normalizedLocales) {
+          set.status = 400;
+          return { error: 'Bad Request', message: normalizedLocales.error };
+        }
+        locales = normalizedLocales.locales;
+      }
+
+      const content = resolveContent(fields.htmlContent, fields.jsonContent);
+      if ('status' in content) {
+        const { status, ...error } = content;
+        set.status = status;
+        return error;
+      }
+
+      const syntaxError = validateTemplateSyntax({
+        subject: fields.subject,
+        html: content.htmlContent,
+        previewText: fields.previewText,
+        ...localeSyntaxFields(locales ?? {}),
+      });
+      if (syntaxError) {
+        set.status = 422;
+        return {
+          error: 'Template Syntax Error',
+          message: syntaxError.message,
+          field: syntaxError.field,
+          line: syntaxError.line,
+          column: syntaxError.column,
+        };
+      }
+
+      await db.transaction(async (tx) => {
+        await tx
+          .update(emailTemplate)
+          .set({
+            ...(fields.name !== undefined && { name: fields.name }),
+            ...(fields.slug !== undefined && { slug: fields.slug }),
+            ...(fields.subject !== undefined && { subject: fields.subject }),
+            ...content,
+            ...(fields.previewText !== undefined && { previewText: fields.previewText }),
+            ...(fields.categoryId !== undefined && { categoryId: fields.categoryId }),
+            ...(fields.isActive !== undefined && { isActive: fields.isActive }),
+            updatedAt: new Date(),
+          })
+          .where(eq(emailTemplate.id, existing.id));
+
+        if (variables) {
+          await tx.delete(emailTemplateVariable).where(eq(emailTemplateVariable.templateId, existing.id));
+          if (variables.length > 0) {
+            await tx.insert(emailTemplateVariable).values(toVariableRows(existing.id, variables));
+          }
+        }
+
+        if (locales) {
+          await tx.delete(emailTemplateLocale).where(eq(emailTemplateLocale.templateId, existing.id));
+          if (Object.keys(locales).length > 0) {
+            await tx.insert(emailTemplateLocale).values(toLocaleRows(existing.id, locales));
+          }
+        }
+      });
+
+      await logActivity({
+        userId: auth.user.id,
+        type: 'template.updated',
+        action: 'updated',
+        resourceType: 'template',
+        resourceId: existing.id,
+        resourceName: fields.name ?? existing.name,
+        metadata: { fields: Object.keys(body), source: 'api', apiKeyId: auth.apiKey.id },
+        request,
+      });
+
+      const template = await findTemplate(auth.user.id, existing.id);
+      return serializeTemplate(template!);
+    },
+    {
+      params: t.Object({
+        idOrSlug: t.String(),
+      }),
+      body: t.Object({
+        name: t.Optional(t.String({ minLength: 1, maxLength: 100 })),
+        slug: t.Optional(t.Nullable(t.String({ minLength: 1, maxLength: 100 }))),
+        subject: t.Optional(t.String({ minLength: 1, maxLength: 500 })),
+        htmlContent: t.Optional(t.String({ minLength: 1 })),
+        jsonContent: t.Optional(t.Unknown()),
+        previewText: t.Optional(t.Nullable(t.String({ maxLength: 200 }))),
+        categoryId: t.Optional(t.Nullable(t.String())),
+        isActive: t.Optional(t.Boolean()),
+        variables: t.Optional(t.Array(variableSchema)),
+        locales: t.Optional(localesSchema),
+      }),
+      detail: {
+        summary: 'Update Template',
+        description: 'Update the template draft or toggle isActive. Content changes only go live once published. A jsonContent design is recompiled to htmlContent; saving htmlContent alone removes the design. Providing variables or locales replaces all variable definitions or locale variants.',
+        tags: ['Templates'],
+      },
+    }
+  )
+  // Delete a template that has never been used to send
+  .delete(
+    '/templates/:idOrSlug',
+    async ({ auth, params, set, request }) => {
+      if (!auth) {
+        set.status = 401;
+        return { error: 'Unauthorized', message: 'Authentication required' };
+      }
+
+      const existing = await findTemplate(auth.user.id, params.idOrSlug);
+      if (!existing) {
+        set.status = 404;
+        return { error: 'Not Found', message: 'Template not found' };
+      }
+
+      // Sent messages keep a reference to their template
+      const usage = await db.query.emailEvent.findFirst({
+        where: eq(emailEvent.templateId, existing.id),
+        columns: { id: true },
+      });
+      if (usage) {
+        set.status = 409;
+        return {
+          error: 'Conflict',
+          message: 'Template has been used to send email and cannot be deleted. Set isActive to false instead.',
+        };
+      }
+
+      await db.transaction(async (tx) => {
+        await tx.delete(emailTemplateVariable).where(eq(emailTemplateVariable.templateId, existing.id));
+        await tx.delete(emailTemplateLocale).where(eq(emailTemplateLocale.templateId, existing.id));
+        await tx.delete(emailTemplateVersion).where(eq(emailTemplateVersion.templateId, existing.id));
+        await tx.delete(emailTemplate).where(eq(emailTemplate.id, existing.id));
+      });
+
+      await logActivity({
+        userId: auth.user.id,
+        type: 'template.deleted',
+        action: 'deleted',
+        resourceType: 'template',
+        resourceId: existing.id,
+        resourceName: existing.name,
+        metadata: { slug: existing.slug, source: 'api', apiKeyId: auth.apiKey.id },
+        request,
+      });
+
+      return {
+        success: true,
+        message: `Template ${existing.name} deleted`,
+      };
+    },
+    {
+      params: t.Object({
+        idOrSlug: t.String(),
+      }),
+      detail: {
+        summary: 'Delete Template',
+        description: 'Delete a template, its variables and versions. Templates that have been used to send can only be deactivated.',
+        tags: ['Templates'],
+      },
+    }
+  )
+  // List published versions of a template
+  .get(
+    '/templates/:idOrSlug/versions',
+    async ({ auth, params, set }) => {
+      if (!auth) {
+        set.status = 401;
+        return { error: 'Unauthorized', message: 'Authentication required' };
+      }
+
+      const template = await findTemplate(auth.user.id, params.idOrSlug);
+      if (!template) {
+        set.status = 404;
+        return { error: 'Not Found', message: 'Template not found' };
+      }
+
+      const versions = await db.query.emailTemplateVersion.findMany({
+        where: eq(emailTemplateVersion.templateId, template.id),
+        orderBy: [desc(emailTemplateVersion.version)],
+        columns: {
+          version: true,
+          subject: true,
+          note: true,
+          createdAt: true,
+        },
+      });
+
+      return {
+        templateId: template.id,
+        publishedVersion: template.publishedVersion,
+        data: versions.map((version) => ({
+          version: version.version,
+          subject: version.subject,
+          note: version.note,
+          isPublished: version.version === template.publishedVersion,
+          createdAt: version.createdAt.toISOString(),
+        })),
+      };
+    },
+    {
+      params: t.Object({
+        idOrSlug: t.String(),
+      }),
+      detail: {
+        summary: 'List Template Versions',
+        description: 'List the immutable versions of a template, newest first.',
+        tags: ['Templates'],
+      },
+    }
+  )
+  // Get the full content of a single version
+  .get(
+    '/templates/:idOrSlug/versions/:version',
+    async ({ auth, params, set }) => {
+      if (!auth) {
+        set.status = 401;
+        return { error: 'Unauthorized', message: 'Authentication required' };
+      }
+
+      const template = await findTemplate(auth.user.id, params.idOrSlug);
+      if (!template) {
+        set.status = 404;
+        return { error: 'Not Found', message: 'Template not found' };
+      }
+
+      const version = await db.query.emailTemplateVersion.findFirst({
+        where: and(
+          eq(emailTemplateVersion.templateId, template.id),
+          eq(emailTemplateVersion.version, params.version)
+        ),
+      });
+      if (!version) {
+        set.status = 404;
+        return { error: 'Not Found', message: `Template version ${params.version} not found` };
+      }
+
+      return {
+        templateId: template.id,
+        version: version.version,
+        subject: version.subject,
+        htmlContent: version.htmlContent,
+        jsonContent: version.jsonContent ? JSON.parse(version.jsonContent) : null,
+        previewText: version.previewText,
+        variables: JSON.parse(version.variables),
+        locales: version.locales ? JSON.parse(version.locales) : {},
+        note: version.note,
+        isPublished: version.version === template.publishedVersion,
+        createdAt: version.createdAt.toISOString(),
+      };
+    },
+    {
+      params: t.Object({
+        idOrSlug: t.String(),
+        version: t.Numeric(),
+      }),
+      detail: {
+        summary: 'Get Template Version',
+        tags: ['Templates'],
+      },
+    }
+  )
+  // Publish the current draft as a new version
+  .post(
+    '/templates/:idOrSlug/publish',
+    async ({ auth, params, body, set, request }) => {
+      if (!auth) {
+        set.status = 401;
+        return { error: 'Unauthorized', message: 'Authentication required' };
+      }
+
+      const template = await findTemplate(auth.user.id, params.idOrSlug);
+      if (!template) {
+        set.status = 404;
+        return { error: 'Not Found', message: 'Template not found' };
+      }
+
+      const version = await publishDraft(template, body?.note);
+
+      await logActivity({
+        userId: auth.user.id,
+        type: 'template.published',
+        action: 'published',
+        resourceType: 'template',
+        resourceId: template.id,
+        resourceName: template.name,
+        metadata: { version, note: body?.note, source: 'api', apiKeyId: auth.apiKey.id },
+        request,
+      });
+
+      set.status = 201;
+      return {
+        templateId: template.id,
+        version,
+        publishedVersion: version,
+        previousVersion: template.publishedVersion,
+      };
+    },
+    {
+      params: t.Object({
+        idOrSlug: t.String(),
+      }),
+      body: t.Optional(
+        t.Object({
+          note: t.Optional(t.String({ maxLength: 255 })),
+        })
+      ),
+      detail: {
+        summary: 'Publish Template',
+        description: 'Snapshot the current draft as a new immutable version and make it the version used by /send.',
+        tags: ['Templates'],
+      },
+    }
+  )
+  // Point the published version back at an earlier version
+  .post(
+    '/templates/:idOrSlug/rollback',
+    async ({ auth, params, body, set, request }) => {
+      if (!auth) {
+        set.status = 401;
+        return { error: 'Unauthorized', message: 'Authentication required' };
+      }
+
+      const template = await findTemplate(auth.user.id, params.idOrSlug);
+      if (!template) {
+        set.status = 404;
+        return { error: 'Not Found', message: 'Template not found' };
+      }
+
+      const version = await db.query.emailTemplateVersion.findFirst({
+        where: and(
+          eq(emailTemplateVersion.templateId, template.id),
+          eq(emailTemplateVersion.version, body.version)
+        ),
+        columns: { version: true },
+      });
+      if (!version) {
+        set.status = 404;
+        return { error: 'Not Found', message: `Template version ${body.version} not found` };
+      }
+
+      // Versions are immutable, so rolling back only moves the published pointer
+      // (the draft is left untouched)
+      await db
+        .update(emailTemplate)
+        .set({ publishedVersion: version.version, publishedAt: new Date() })
+        .where(eq(emailTemplate.id, template.id));
+
+      await logActivity({
+        userId: auth.user.id,
+        type: 'template.rolled_back',
+        action: 'rolled_back',
+        resourceType: 'template',
+        resourceId: template.id,
+        resourceName: template.name,
+        metadata: {
+          version: version.version,
+          previousVersion: template.publishedVersion,
+          source: 'api',
+          apiKeyId: auth.apiKey.id,
+        },
+        request,
+      });
+
+      return {
+        templateId: template.id,
+        publishedVersion: version.version,
+        previousVersion: template.publishedVersion,
+      };
+    },
+    {
+      params: t.Object({
+        idOrSlug: t.String(),
+      }),
+      body: t.Object({
+        version: t.Integer({ minimum: 1 }),
+      }),
+      detail: {
+        summary: 'Roll Back Template',
+        description: 'Make an earlier version the published version used by /send.',
+        tags: ['Templates'],
+      },
+    }
+  )
+  // Line diff between two versions (or a version and the draft)
+  .get(
+    '/templates/:idOrSlug/diff',
+    async ({ auth, params, query, set }) => {
+      if (!auth) {
+        set.status = 401;
+        return { error: 'Unauthorized', message: 'Authentication required' };
+      }
+
+      const template = await findTemplate(auth.user.id, params.idOrSlug);
+      if (!template) {
+        set.status = 404;
+        return { error: 'Not Found', message: 'Template not found' };
+      }
+
+      // Default: published version against the draft
+      const parseSelector = (value: string | undefined, fallback: number | 'draft' | null) => {
+        if (value === undefined) return fallback;
+        if (value === 'draft') return 'draft';
+        const version = parseInt(value);
+        return isNaN(version) ? undefined : version;
+      };
+      const from = parseSelector(query.from, template.publishedVersion);
+      const to = parseSelector(query.to, 'draft');
+
+      if (from === undefined || to === undefined) {
+        set.status = 400;
+        return { error: 'Bad Request', message: 'from and to must be a version number or "draft"' };
+      }
+      if (from === null || to === null) {
+        set.status = 400;
+        return { error: 'Bad Request', message: 'Template has no published version; specify from explicitly' };
+      }
+
+      const before = await loadVersionContent(template, from);
+      const after = await loadVersionContent(template, to);
+      if (!before || !after) {
+        set.status = 404;
+        return { error: 'Not Found', message: `Template version ${!before ? from : to} not found` };
+      }
+
+      const fields: Record<string, { changed: boolean; lines: ReturnType<typeof diffLines> }> = {};
+      for (const field of DIFF_FIELDS) {
+        const changed = before[field] !== after[field];
+        fields[field] = {
+          changed,
+          lines: changed ? diffLines(before[field], after[field]) : [],
+        };
+      }
+
+      return {
+        templateId: template.id,
+        from,
+        to,
+        changed: Object.values(fields).some(f => f.changed),
+        fields,
+      };
+    },
+    {
+      params: t.Object({
+        idOrSlug: t.String(),
+      }),
+      query: t.Object({
+        from: t.Optional(t.String()),
+        to: t.Optional(t.String()),
+      }),
+      detail: {
+        summary: 'Diff Template Versions',
+        description: 'Line diff of subject, HTML, preview text and variables between two versions. from/to accept a version number or "draft" (default: published version to draft).',
+        tags: ['Templates'],
+      },
+    }
+  )
+  // Render a template without sending it
+  .post(
+    '/templates/:idOrSlug/render',
+    async ({ auth, params, body, set }) => {
+      if (!auth) {
+        set.status = 401;
+        return { error: 'Unauthorized', message: 'Authentication required' };
+      }
+
+      // Same render path as /send, but nothing is tracked, queued or counted
+      // (inactive templates can be previewed too)
+      const rendered = await renderTemplateForSend(
+        auth.user.id,
+        params.idOrSlug,
+        body.variables ?? {},
+        { strict: body.strict, version: body.templateVersion, locale: body.locale, includeInactive: true }
+      );
+
+      if (!rendered.success) {
+        const { statusCode, success, details, ...error } = rendered;
+        set.status = statusCode;
+        return { ...error, ...details };
+      }
+
+      return {
+        templateId: rendered.templateId,
+        templateVersion: rendered.templateVersion,
+        locale: rendered.locale,
+        subject: rendered.subject,
+        html: rendered.html,
+        // Same plain-text part /send would generate (before tracking is applied)
+        text: rendered.text ?? (body.autoText === false ? null : htmlToText(rendered.html)),
+        previewText: rendered.previewText ?? null,
+      };
+    },
+    {
+      params: t.Object({
+        idOrSlug: t.String(),
+      }),
+      body: t.Object({
+        variables: t.Optional(t.Record(t.String(), t.Unknown())),
+        strict: t.Optional(t.Boolean()),
+        templateVersion: t.Optional(versionSelectorSchema),
+        locale: t.Optional(t.String()),
+        autoText: t.Optional(t.Boolean()),
+      }),
+      detail: {
+        summary: 'Render Template Preview',
+        description: 'Render a template with variables exactly as /send would, without tracking, queueing or using quota. Set templateVersion to a version number or "draft" to preview something other than the published version.',
+        tags: ['Templates'],
+      },
+    }
+  );
@@ -1,7 +1,12 @@
 import { Elysia, t } from 'elysia';
-import { eq, sql } from 'drizzle-orm';
-import { db, emailTrackingLink, emailTrackingOpen, emailEvent } from '../db';
-import { TRANSPARENT_GIF } from '../lib/tracking';
+import { and, eq, sql } from 'drizzle-orm';
+import { db, domain, emailTrackingLink, emailTrackingOpen, emailTrackingRecipient, emailEvent, type EmailTrackingLink } from '../db';
+import { TRANSPARENT_GIF, isAllowedTrackingHost, isAllowedRedirectUrl } from '../lib/tracking';
+import { verifyTrackingToken, isSignedTrackingToken } from '../lib/tracking-token';
+import { checkRateLimit } from '../lib/rate-limit';
+import { getClientIp, getRequestHost } from '../lib/client-ip';
+import { config } from '../config';
+import { getMessageLabels } from './events';
 
 // Generate time-based event ID (sortable)
 function generateEventId(): string {
@@ -10,41 +15,195 @@ function generateEventId(): string {
   return `evt_${timestamp}${random}`;
 }
 
+// Response headers of the open tracking pixel (never cached, so every open reaches us)
+const PIXEL_HEADERS = {
+  'content-type': 'image/gif',
+  'cache-control': 'no-store, no-cache, must-revalidate, proxy-revalidate',
+  'pragma': 'no-cache',
+  'expires': '0'
+};
+
+// Tracking links only work on the global tracking host or the sending domain's
+// verified tracking host, so one customer's host can't serve another's links
+async function isValidTrackingRequest(
+  request: Request,
+  record: { userId: string; sendingDomain: string | null }
+): Promise<boolean> {
+  const host = getRequestHost(request);
+
+  const sendingDomain = record.sendingDomain
+    ? await db.query.domain.findFirst({
+        where: and(eq(domain.userId, record.userId), eq(domain.name, record.sendingDomain)),
+        columns: { cnameHost: true, cnameVerified: true },
+      })
+    : undefined;
+
+  return isAllowedTrackingHost(
+    host,
+    config.tracking.baseUrl,
+    sendingDomain?.cnameVerified ? sendingDomain.cnameHost : null
+  );
+}
+
+// Find the tracked link a click redirects through
+// (null = unknown link, or a stored URL that isn't safe to redirect to)
+async function findClickTarget(request: Request, id: string): Promise<EmailTrackingLink | null> {
+  const trackingRecord = await db.query.emailTrackingLink.findFirst({
+    where: eq(emailTrackingLink.id, id)
+  });
+
+  if (!trackingRecord || !await isValidTrackingRequest(request, trackingRecord)) {
+    return null;
+  }
+
+  // Links stored before scheme checks were added may point anywhere
+  if (!isAllowedRedirectUrl(trackingRecord.originalUrl)) {
+    return null;
+  }
+
+  return trackingRecord;
+}
+
+// Count a click on a tracked link
+// The first click on each link by each recipient is recorded as a clicked event.
+// recipientId is null for links sent before per-recipient tracking, which are
+// attributed to the message's first recipient
+async function recordClick(
+  request: Request,
+  ipAddress: string,
+  trackingRecord: EmailTrackingLink,
+  recipientId: string | null
+): Promise<void> {
+  const { id } = trackingRecord;
+
+  // Update tracking record
+  await db
+    .update(emailTrackingLink)
+    .set({
+      clickedAt: trackingRecord.clickedAt || new Date(),
+      clickCount: sql`${emailTrackingLink.clickCount} + 1`
+    })
+    .where(eq(emailTrackingLink.id, id));
+
+  // Resolve who clicked (an unknown recipient ID still redirects, but isn't attributed)
+  let recipientEmail: string | null = trackingRecord.recipientEmail;
+  if (recipientId) {
+    const recipient = await db.query.emailTrackingRecipient.findFirst({
+      where: and(
+        eq(emailTrackingRecipient.id, recipientId),
+        eq(emailTrackingRecipient.messageId, trackingRecord.messageId)
+      )
+    });
+    recipientEmail = recipient?.recipientEmail ?? null;
+  }
+  if (!recipientEmail) return;
+
+  // Check if this is the recipient's first click on this link (log event)
+  const previousClick = await db.query.emailEvent.findFirst({
+    where: and(
+      eq(emailEvent.messageId, trackingRecord.messageId),
+      eq(emailEvent.recipientEmail, recipientEmail),
+      eq(emailEvent.eventType, 'clicked'),
+      sql`${emailEvent.metadata}::jsonb ->> 'trackingId' = ${id}`
+    ),
+    columns: { id: true }
+  });
+
+  if (!previousClick) {
+    // Get request metadata
+    const userAgent = request.headers.get('user-agent') || '';
+
+    // Insert email event
+    await db.insert(emailEvent).values({
+      id: generateEventId(),
+      userId: trackingRecord.userId,
+      messageId: trackingRecord.messageId,
+      eventType: 'clicked',
+      recipientEmail,
+      sendingDomain: trackingRecord.sendingDomain,
+      ...await getMessageLabels(trackingRecord.userId, trackingRecord.messageId),
+      ipAddress: ipAddress.substring(0, 45),
+      userAgent: userAgent.substring(0, 500),
+      metadata: JSON.stringify({
+        trackingId: id,
+        recipientTrackingId: recipientId,
+        url: trackingRecord.originalUrl,
+        clickCount: (trackingRecord.clickCount || 0) + 1
+      })
+    });
+  }
+}
+
 /**
  * Tracking Routes
  * 
  * Handles email open tracking (1x1 pixel) and click tracking (link redirects)
  * 
+ * Recipients are identified by signed tokens (see lib/tracking-token). Invalid
+ * or expired tokens get the same response as unknown links, and both endpoints
+ * are rate limited per IP. Unsigned links in mail sent before signing still
+ * redirect, but are only recorded when TRACKING_RECORD_UNSIGNED_LINKS is on.
+ *
  * Endpoints:
- * - GET /t/o/:id - Open tracking (returns 1x1 transparent GIF)
- * - GET /t/c/:id - Click tracking (redirects to original URL)
+ * - GET /t/o/:token - Open tracking (returns 1x1 transparent GIF)
+ * - GET /t/c/:id/:token - Click tracking (redirects to original URL)
+ * - GET /t/c/:id - Click tracking for links sent before per-recipient tracking
  */
 
 // Tracking route plugin
 export const trackingRoute = new Elysia({ name: 'tracking-route' })
+  // Per-IP rate limit, so a leaked link can't be replayed without limit
+  .onBeforeHandle(async ({ request, server, path, set }) => {
+    const { rateLimitMax, rateLimitWindowSeconds } = config.tracking;
+    if (rateLimitMax <= 0) return;
+
+    try {
+      const retryAfter = await checkRateLimit(
+        `tracking:${getClientIp(request, server) || 'unknown'}`,
+        rateLimitMax,
+        rateLimitWindowSeconds
+      );
+      if (retryAfter !== null) {
+        // Mail clients expect an image, so the pixel is served as usual without recording the open
+        if (path.startsWith('/t/o/')) {
+          Object.assign(set.headers, PIXEL_HEADERS);
+          return TRANSPARENT_GIF;
+        }
+
+        set.status = 429;
+        set.headers['retry-after'] = String(retryAfter);
+        return { error: 'Too many requests' };
+      }
+    } catch (err) {
+      // A Redis outage shouldn't break links in delivered mail
+      console.error('Tracking rate limit error:', err);
+    }
+  })
   /**
    * Open Tracking Endpoint
    * 
    * Returns a 1x1 transparent GIF and logs the open event
    */
   .get(
-    '/t/o/:id',
-    async ({ params, set, request }) => {
-      const { id } = params;
+    '/t/o/:token',
+    async ({ params, set, request, server }) => {
+      // A bad token is answered with the pixel as usual, it just isn't recorded
+      const id = isSignedTrackingToken(params.token)
+        ? verifyTrackingToken(params.token, { kind: 'open' })
+        : config.tracking.recordUnsignedLinks ? params.token : null;
       
       try {
         // Find the tracking record
-        const trackingRecord = await db.query.emailTrackingOpen.findFirst({
-          where: eq(emailTrackingOpen.id, id)
-        });
+        const trackingRecord = id
+          ? await db.query.emailTrackingOpen.findFirst({
+              where: eq(emailTrackingOpen.id, id)
+            })
+          : undefined;
         
-        if (trackingRecord) {
+        if (id && trackingRecord && await isValidTrackingRequest(request, trackingRecord)) {
           // Get request metadata
           const userAgent = request.headers.get('user-agent') || '';
-          const forwarded = request.headers.get('x-forwarded-for');
-          const ipAddress = forwarded?.split(',')[0].trim() || 
-                           request.headers.get('x-real-ip') || 
-                           '';
+          const ipAddress = getClientIp(request, server);
           
           // Update tracking record
           await db
@@ -53,7 +212,7 @@ export const trackingRoute = new Elysia({ name: 'tracking-route' })
               openedAt: trackingRecord.openedAt || new Date(),
               openCount: sql`${emailTrackingOpen.openCount} + 1`
             })
-            .where(eq(emailTrackingOpen.id, id));
+            .where(eq(emailTrackingOpen.id, trackingRecord.id));
           
           // Check if this is the first open (log event)
           if (!trackingRecord.openedAt) {
@@ -65,10 +224,11 @@ export const trackingRoute = new Elysia({ name: 'tracking-route' })
               eventType: 'opened',
               recipientEmail: trackingRecord.recipientEmail,
               sendingDomain: trackingRecord.sendingDomain,
+              ...await getMessageLabels(trackingRecord.userId, trackingRecord.messageId),
               ipAddress: ipAddress.substring(0, 45),
               userAgent: userAgent.substring(0, 500),
               metadata: JSON.stringify({
-                trackingId: id,
+                trackingId: trackingRecord.id,
                 openCount: (trackingRecord.openCount || 0) + 1
               })
             });
@@ -80,16 +240,13 @@ export const trackingRoute = new Elysia({ name: 'tracking-route' })
       }
       
       // Always return the transparent GIF
-      set.headers['content-type'] = 'image/gif';
-      set.headers['cache-control'] = 'no-store, no-cache, must-revalidate, proxy-revalidate';
-      set.headers['pragma'] = 'no-cache';
-      set.headers['expires'] = '0';
+      Object.assign(set.headers, PIXEL_HEADERS);
       
       return TRANSPARENT_GIF;
     },
     {
       params: t.Object({
-        id: t.String()
+        token: t.String()
       }),
       detail: {
         summary: 'Open Tracking Pixel',
@@ -101,65 +258,76 @@ export const trackingRoute = new Elysia({ name: 'tracking-route' })
   /**
    * Click Tracking Endpoint
    * 
-   * Redirects to the original URL and logs the click event
+   * Redirects to the original URL and logs the click event for the recipient
+   * identified by the token
+   */
+  .get(
+    '/t/c/:id/:token',
+    async ({ params, set, request, server }) => {
+      try {
+        const signed = isSignedTrackingToken(params.token);
+        const recipientId = signed
+          ? verifyTrackingToken(params.token, { kind: 'click', linkId: params.id })
+          : params.token;
+        const trackingRecord = recipientId ? await findClickTarget(request, params.id) : null;
+        if (!trackingRecord) {
+          set.status = 404;
+          return { error: 'Link not found' };
+        }
+
+        if (signed || config.tracking.recordUnsignedLinks) {
+          await recordClick(request, getClientIp(request, server), trackingRecord, recipientId);
+        }
+
+        // Redirect to original URL
+        set.status = 302;
+        set.headers['location'] = trackingRecord.originalUrl;
+        set.headers['cache-control'] = 'no-store, no-cache, must-revalidate';
+
+        return;
+      } catch (err) {
+        console.error('Click tracking error:', err);
+        set.status = 500;
+        return { error: 'Tracking error' };
+      }
+    },
+    {
+      params: t.Object({
+        id: t.String(),
+        token: t.String()
+      }),
+      detail: {
+        summary: 'Click Tracking Redirect',
+        description: 'Tracks link clicks per recipient and redirects to the original URL.',
+        tags: ['Tracking']
+      }
+    }
+  )
+  /**
+   * Click Tracking Endpoint (links sent before per-recipient tracking)
+   * 
+   * Always redirects; clicks are only recorded (for the message's first
+   * recipient) when unsigned links are recorded
    */
   .get(
     '/t/c/:id',
-    async ({ params, set, request }) => {
-      const { id } = params;
-      
+    async ({ params, set, request, server }) => {
       try {
-        // Find the tracking record
-        const trackingRecord = await db.query.emailTrackingLink.findFirst({
-          where: eq(emailTrackingLink.id, id)
-        });
-        
+        const trackingRecord = await findClickTarget(request, params.id);
         if (!trackingRecord) {
           set.status = 404;
           return { error: 'Link not found' };
         }
-        
-        // Get request metadata
-        const userAgent = request.headers.get('user-agent') || '';
-        const forwarded = request.headers.get('x-forwarded-for');
-        const ipAddress = forwarded?.split(',')[0].trim() || 
-                         request.headers.get('x-real-ip') || 
-                         '';
-        
-        // Update tracking record
-        await db
-          .update(emailTrackingLink)
-          .set({
-            clickedAt: trackingRecord.clickedAt || new Date(),
-            clickCount: sql`${emailTrackingLink.clickCount} + 1`
-          })
-          .where(eq(emailTrackingLink.id, id));
-        
-        // Check if this is the first click (log event)
-        if (!trackingRecord.clickedAt) {
-          // Insert email event
-          await db.insert(emailEvent).values({
-            id: generateEventId(),
-            userId: trackingRecord.userId,
-            messageId: trackingRecord.messageId,
-            eventType: 'clicked',
-            recipientEmail: trackingRecord.recipientEmail,
-            sendingDomain: trackingRecord.sendingDomain,
-            ipAddress: ipAddress.substring(0, 45),
-            userAgent: userAgent.substring(0, 500),
-            metadata: JSON.stringify({
-              trackingId: id,
-              url: trackingRecord.originalUrl,
-              clickCount: (trackingRecord.clickCount || 0) + 1
-            })
-          });
+
+        if (config.tracking.recordUnsignedLinks) {
+          await recordClick(request, getClientIp(request, server), trackingRecord, null);
         }
-        
+
         // Redirect to original URL
         set.status = 302;
         set.headers['location'] = trackingRecord.originalUrl;
         set.headers['cache-control'] = 'no-store, no-cache, must-revalidate';
-        
+
         return;
       } catch (err) {
         console.error('Click tracking error:', err);
@@ -172,7 +340,7 @@ export const trackingRoute = new Elysia({ name: 'tracking-route' })
         id: t.String()
       }),
       detail: {
-        summary: 'Click Tracking Redirect',
+        summary: 'Click Tracking Redirect (Legacy)',
         description: 'Tracks link clicks and redirects to the original URL.',
         tags: ['Tracking']
       }
@@ -0,0 +1,341 @@
+import { Elysia, t } from 'elysia';
+import { and, eq, asc } from 'drizzle-orm';
+import { db, domain, emailEvent, emailTemplateCategory } from '../db';
+import { verifyUnsubscribeToken, type UnsubscribePayload } from '../lib/unsubscribe';
+import { escapeHtml } from '../lib/template';
+import { getClientIp } from '../lib/client-ip';
+import { addToSuppressionInternal, getMessageLabels } from './events';
+import { getSubscriptionState, setCategoryOptOuts, resubscribe } from './suppression';
+
+// Generate time-based event ID (sortable)
+function generateEventId(): string {
+  const timestamp = Date.now().toString(36);
+  const random = Math.random().toString(36).substring(2, 10);
+  return `evt_${timestamp}${random}`;
+}
+
+// Record an unsubscribed event for the message the link came from
+async function recordUnsubscribedEvent(
+  payload: UnsubscribePayload,
+  sendingDomain: string | null,
+  request: Request,
+  ipAddress: string,
+  metadata: Record<string, unknown>
+): Promise<string> {
+  const userAgent = request.headers.get('user-agent') || '';
+
+  const eventId = generateEventId();
+  await db.insert(emailEvent).values({
+    id: eventId,
+    userId: payload.userId,
+    messageId: payload.messageId,
+    eventType: 'unsubscribed',
+    recipientEmail: payload.email,
+    sendingDomain,
+    ...await getMessageLabels(payload.userId, payload.messageId),
+    ipAddress: ipAddress.substring(0, 45),
+    userAgent: userAgent.substring(0, 500),
+    metadata: JSON.stringify(metadata),
+  });
+  return eventId;
+}
+
+// Render the hosted subscription preference page
+function renderPreferencePage(options: {
+  token: string;
+  email: string;
+  senderName: string;
+  categories: { id: string; name: string; description: string | null; subscribed: boolean }[];
+  unsubscribedAll: boolean;
+  unsubscribedAccountWide: boolean;
+  saved: boolean;
+}): string {
+  const { token, email, senderName, categories, unsubscribedAll, unsubscribedAccountWide, saved } = options;
+  const action = `/u/${encodeURIComponent(token)}/preferences`;
+
+  const notice = saved
+    ? '<p style="background:#ecfdf5;color:#065f46;padding:12px 16px;border-radius:6px;margin:0 0 24px;">Your preferences have been saved.</p>'
+    : '';
+
+  const body = unsubscribedAccountWide
+    ? `<p style="margin:0;">You are unsubscribed from all email from ${escapeHtml(senderName)}.</p>`
+    : unsubscribedAll
+    ? `<p style="margin:0 0 24px;">You are unsubscribed from all email from ${escapeHtml(senderName)}.</p>
+<form method="post" action="${action}">
+<button type="submit" name="action" value="resubscribe" style="background:#2563eb;color:#ffffff;border:0;border-radius:6px;padding:10px 20px;font-size:15px;cursor:pointer;">Resubscribe</button>
+</form>`
+    : `<form method="post" action="${action}">
+${categories.length > 0
+  ? `<p style="margin:0 0 16px;">Choose which email you want to receive:</p>
+${categories.map((category) => `<label style="display:block;padding:12px 0;border-bottom:1px solid #e4e4e7;">
+<input type="checkbox" name="category_${escapeHtml(category.id)}"${category.subscribed ? ' checked' : ''} style="margin-right:8px;">
+<strong>${escapeHtml(category.name)}</strong>${category.description ? `<br><span style="color:#71717a;font-size:14px;margin-left:24px;">${escapeHtml(category.description)}</span>` : ''}
+</label>`).join('\n')}
+<button type="submit" name="action" value="save" style="margin-top:24px;background:#2563eb;color:#ffffff;border:0;border-radius:6px;padding:10px 20px;font-size:15px;cursor:pointer;">Save preferences</button>`
+  : ''}
+<button type="submit" name="action" value="unsubscribe_all" style="margin-top:24px;background:#ffffff;color:#b91c1c;border:1px solid #b91c1c;border-radius:6px;padding:10px 20px;font-size:15px;cursor:pointer;">Unsubscribe from all</button>
+</form>`;
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<meta name="robots" content="noindex">
+<title>Email preferences</title>
+</head>
+<body style="margin:0;padding:0;background:#f4f4f5;font-family:Arial, Helvetica, sans-serif;color:#18181b;">
+<div style="max-width:520px;margin:48px auto;background:#ffffff;border-radius:8px;padding:32px;">
+<h1 style="font-size:22px;margin:0 0 8px;">Email preferences</h1>
+<p style="color:#71717a;margin:0 0 24px;">${escapeHtml(email)}</p>
+${notice}
+${body}
+</div>
+</body>
+</html>`;
+}
+
+/**
+ * Unsubscribe Routes
+ *
+ * Public endpoints behind the List-Unsubscribe header (no auth - the token is signed)
+ *
+ * Endpoints:
+ * - POST /u/:token - RFC 8058 one-click unsubscribe
+ * - GET /u/:token - Subscription preference page (opt out of template categories or everything)
+ * - POST /u/:token/preferences - Preference page form submission
+ */
+
+// Unsubscribe route plugin
+export const unsubscribeRoute = new Elysia({ name: 'unsubscribe-route' })
+  /**
+   * One-Click Unsubscribe Endpoint
+   *
+   * Mailbox providers POST "List-Unsubscribe=One-Click" here. Records an
+   * unsubscribed event and suppresses the recipient.
+   */
+  .post(
+    '/u/:token',
+    async ({ params, set, request, server }) => {
+      const payload = verifyUnsubscribeToken(params.token);
+      if (!payload) {
+        set.status = 404;
+        return { error: 'Not Found', message: 'Invalid unsubscribe link' };
+      }
+
+      const { userId, domainId, email, messageId } = payload;
+
+      try {
+        const sendingDomain = await db.query.domain.findFirst({
+          where: eq(domain.id, domainId),
+          columns: { name: true },
+        });
+
+        // Providers may retry the POST - record the event only once per message
+        const existing = await db.query.emailEvent.findFirst({
+          where: and(
+            eq(emailEvent.userId, userId),
+            eq(emailEvent.messageId, messageId),
+            eq(emailEvent.recipientEmail, email),
+            eq(emailEvent.eventType, 'unsubscribed')
+          ),
+          columns: { id: true },
+        });
+
+        const eventId = existing?.id ?? await recordUnsubscribedEvent(
+          payload,
+          sendingDomain?.name || null,
+          request,
+          getClientIp(request, server),
+          { source: 'list-unsubscribe', method: 'one-click' }
+        );
+
+        // Same suppression as an unsubscribed event recorded through POST /events
+        await addToSuppressionInternal(
+          userId,
+          email,
+          'unsubscribe',
+          eventId,
+          domainId,
+          { source: 'list-unsubscribe', method: 'one-click', messageId, autoSuppressed: true }
+        );
+
+        return { success: true };
+      } catch (err) {
+        console.error('Unsubscribe error:', err);
+        set.status = 500;
+        return { error: 'Internal Error', message: 'Failed to unsubscribe' };
+      }
+    },
+    {
+      params: t.Object({
+        token: t.String(),
+      }),
+      detail: {
+        summary: 'One-Click Unsubscribe',
+        description: 'RFC 8058 one-click unsubscribe target for the List-Unsubscribe-Post header. Records an unsubscribed event and suppresses the recipient.',
+        tags: ['Tracking'],
+      },
+    }
+  )
+  /**
+   * Subscription Preference Page
+   *
+   * Lists the sender's marketing categories so the recipient can opt out of
+   * specific ones, or of everything
+   */
+  .get(
+    '/u/:token',
+    async ({ params, query, set }) => {
+      set.headers['content-type'] = 'text/html; charset=utf-8';
+      set.headers['cache-control'] = 'no-store';
+
+      const payload = verifyUnsubscribeToken(params.token);
+      if (!payload) {
+        set.status = 404;
+        return '<!DOCTYPE html><html><body style="font-family:Arial, Helvetica, sans-serif;"><p>This unsubscribe link is invalid.</p></body></html>';
+      }
+
+      const [sendingDomain, categories, state] = await Promise.all([
+        db.query.domain.findFirst({
+          where: eq(domain.id, payload.domainId),
+          columns: { name: true },
+        }),
+        // Transactional categories can't be opted out of
+        db.query.emailTemplateCategory.findMany({
+          where: and(
+            eq(emailTemplateCategory.userId, payload.userId),
+            eq(emailTemplateCategory.messageType, 'marketing')
+          ),
+          orderBy: [asc(emailTemplateCategory.name)],
+          columns: { id: true, name: true, description: true },
+        }),
+        getSubscriptionState(payload.userId, payload.email, payload.domainId),
+      ]);
+
+      return renderPreferencePage({
+        token: params.token,
+        email: payload.email,
+        senderName: sendingDomain?.name ?? 'this sender',
+        categories: categories.map((category) => ({
+          ...category,
+          subscribed: !state.optedOutCategoryIds.includes(category.id),
+        })),
+        unsubscribedAll: state.unsubscribedAll,
+        unsubscribedAccountWide: state.unsubscribedAccountWide,
+        saved: query.saved === '1',
+      });
+    },
+    {
+      params: t.Object({
+        token: t.String(),
+      }),
+      query: t.Object({
+        saved: t.Optional(t.String()),
+      }),
+      detail: {
+        summary: 'Subscription Preference Page',
+        description: 'Hosted page where a recipient can opt out of template categories or all email from the sender.',
+        tags: ['Tracking'],
+      },
+    }
+  )
+  /**
+   * Preference Page Submission
+   *
+   * Category opt-outs become domain-scoped suppressions with a category
+   * reference; "unsubscribe from all" is a domain-scoped unsubscribe
+   */
+  .post(
+    '/u/:token/preferences',
+    async ({ params, body, set, request, server }) => {
+      const payload = verifyUnsubscribeToken(params.token);
+      if (!payload) {
+        set.status = 404;
+        return { error: 'Not Found', message: 'Invalid unsubscribe link' };
+      }
+
+      const { userId, domainId, email, messageId } = payload;
+      const form: Record<string, string> = body ?? {};
+
+      try {
+        const sendingDomain = await db.query.domain.findFirst({
+          where: eq(domain.id, domainId),
+          columns: { name: true },
+        });
+
+        if (form.action === 'unsubscribe_all') {
+          const eventId = await recordUnsubscribedEvent(
+            payload,
+            sendingDomain?.name || null,
+            request,
+            getClientIp(request, server),
+            { source: 'preference-page', scope: 'all' }
+          );
+          await addToSuppressionInternal(
+            userId,
+            email,
+            'unsubscribe',
+            eventId,
+            domainId,
+            { source: 'preference-page', messageId, autoSuppressed: true }
+          );
+        } else if (form.action === 'resubscribe') {
+          await resubscribe(userId, email, domainId);
+        } else {
+          // Unchecked categories are opted out of
+          const categories = await db.query.emailTemplateCategory.findMany({
+            where: and(
+              eq(emailTemplateCategory.userId, userId),
+              eq(emailTemplateCategory.messageType, 'marketing')
+            ),
+            columns: { id: true, name: true },
+          });
+          const optedOut = categories.filter(category => !form[`category_${category.id}`]);
+
+          const added = await setCategoryOptOuts(
+            userId,
+            email,
+            domainId,
+            optedOut.map(category => category.id),
+            { source: 'preference-page', messageId }
+          );
+
+          for (const categoryId of added) {
+            await recordUnsubscribedEvent(
+              payload,
+              sendingDomain?.name || null,
+              request,
+              getClientIp(request, server),
+              {
+                source: 'preference-page',
+                scope: 'category',
+                categoryId,
+                categoryName: categories.find(c => c.id === categoryId)?.name,
+              }
+            );
+          }
+        }
+
+        // Post/redirect/get so a refresh doesn't resubmit the form
+        set.status = 303;
+        set.headers['location'] = `/u/${encodeURIComponent(params.token)}?saved=1`;
+        return;
+      } catch (err) {
+        console.error('Preference update error:', err);
+        set.status = 500;
+        return { error: 'Internal Error', message: 'Failed to update preferences' };
+      }
+    },
+    {
+      params: t.Object({
+        token: t.String(),
+      }),
+      body: t.Optional(t.Record(t.String(), t.String())),
+      detail: {
+        summary: 'Update Subscription Preferences',
+        description: 'Form target of the preference page. action is "save" (unchecked categories are opted out of), "unsubscribe_all" or "resubscribe".',
+        tags: ['Tracking'],
+      },
+    }
+  );
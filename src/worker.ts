@@ -7,16 +7,25 @@
  */
 
 import { createEmailWorker } from './workers/email';
+import { purgeExpiredAttachments } from './lib/attachments';
 
 console.log('🚀 Starting workers...');
 
 // Create email worker
 const emailWorker = createEmailWorker();
 
+// Periodically remove attachments past their retention window
+const attachmentCleanup = setInterval(() => {
+  purgeExpiredAttachments().catch((error) => {
+    console.error('[Attachments] Cleanup failed:', error);
+  });
+}, 60 * 60 * 1000);
+
 // Graceful shutdown
 const shutdown = async () => {
   console.log('\n⏳ Shutting down workers...');
   
+  clearInterval(attachmentCleanup);
   await emailWorker.close();
   
   console.log('✅ Workers shut down gracefully');
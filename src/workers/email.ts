@@ -1,10 +1,14 @@
-import { Worker, Job } from 'bullmq';
+import { Worker, Job, UnrecoverableError } from 'bullmq';
 import { createTransport, type Transporter } from 'nodemailer';
-import { eq, sql } from 'drizzle-orm';
+import type DKIM from 'nodemailer/lib/dkim';
+import { and, eq, notInArray, sql } from 'drizzle-orm';
 import { nanoid } from 'nanoid';
-import { redisConnection, QUEUE_NAMES, type EmailJobData, type EmailJobResult } from '../queues';
-import { db, emailEvent, userBilling } from '../db';
+import { redisConnection, QUEUE_NAMES, getJobRecipients, getUndeliveredRecipients, type EmailJobData, type EmailJobResult } from '../queues';
+import { db, domain, emailEvent, userBilling, type Domain } from '../db';
 import { config } from '../config';
+import { loadAttachments } from '../lib/attachments';
+import { createUnsubscribeToken, buildUnsubscribeUrl } from '../lib/unsubscribe';
+import { personalizeTracking } from '../lib/tracking';
 
 // Create SMTP transporter for Haraka
 const createSmtpTransporter = (): Transporter => {
@@ -20,6 +24,98 @@ const createSmtpTransporter = (): Transporter => {
   });
 };
 
+// Headers callers may not set through `headers` (recipients are controlled by to/cc/bcc)
+const PROTECTED_HEADERS = ['to', 'cc', 'bcc'];
+
+// Marketing mail always carries the generated unsubscribe headers
+const UNSUBSCRIBE_HEADERS = ['list-unsubscribe', 'list-unsubscribe-post'];
+
+// Remove recipient headers (and, on marketing mail, unsubscribe headers) from user-supplied custom headers
+const sanitizeHeaders = (data: EmailJobData): Record<string, string> => {
+  const protectedHeaders = data.messageType === 'marketing'
+    ? [...PROTECTED_HEADERS, ...UNSUBSCRIBE_HEADERS]
+    : PROTECTED_HEADERS;
+  return Object.fromEntries(
+    Object.entries(data.headers ?? {}).filter(([key]) => !protectedHeaders.includes(key.toLowerCase()))
+  );
+};
+
+// Merge fields into an event's JSON metadata instead of replacing it,
+// so send-time context (jobId, recipient role, ...) is preserved
+const mergeMetadata = (patch: Record<string, unknown>) => {
+  return sql`(COALESCE(${emailEvent.metadata}, '{}')::jsonb || ${JSON.stringify(patch)}::jsonb)::text`;
+};
+
+// List-Unsubscribe (RFC 2369) and one-click (RFC 8058) headers for one recipient's
+// copy of marketing mail (the link unsubscribes whoever it was generated for)
+const buildUnsubscribeHeaders = (data: EmailJobData, recipient: string): Record<string, string> => {
+  if (data.messageType !== 'marketing') return {};
+
+  const url = buildUnsubscribeUrl(
+    createUnsubscribeToken({
+      userId: data.userId,
+      domainId: data.domainId,
+      email: recipient,
+      messageId: data.messageId,
+    })
+  );
+
+  return {
+    'List-Unsubscribe': `<${url}>`,
+    'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click',
+  };
+};
+
+// Sending domain fields needed to sign a message
+type SigningDomain = Pick<Domain, 'name' | 'dkimVerified' | 'dkimRequired' | 'dkimSelector' | 'dkimPrivateKey'>;
+
+// Signing keys by domain ID, so jobs don't load the key from the database every time
+const signingDomainCache = new Map<string, { domain: SigningDomain | null; expiresAt: number }>();
+
+const getSigningDomain = async (domainId: string): Promise<SigningDomain | null> => {
+  const cached = signingDomainCache.get(domainId);
+  if (cached && cached.expiresAt > Date.now()) return cached.domain;
+
+  const found = await db.query.domain.findFirst({
+    where: eq(domain.id, domainId),
+    columns: { name: true, dkimVerified: true, dkimRequired: true, dkimSelector: true, dkimPrivateKey: true },
+  });
+
+  signingDomainCache.set(domainId, {
+    domain: found ?? null,
+    expiresAt: Date.now() + config.dkim.keyCacheTtlSeconds * 1000,
+  });
+  return found ?? null;
+};
+
+// Sending was refused before reaching SMTP - retrying can't help
+class SigningRequiredError extends UnrecoverableError {
+  code = 'DKIM_REQUIRED';
+}
+
+// DKIM options for the domain's verified key
+// Returns null when the message goes out unsigned; throws when the domain requires signing
+const getDkimOptions = async (data: EmailJobData): Promise<DKIM.SingleKeyOptions | null> => {
+  const signingDomain = await getSigningDomain(data.domainId);
+  const canSign = !!(signingDomain?.dkimVerified && signingDomain.dkimPrivateKey);
+
+  if (!canSign) {
+    if (signingDomain?.dkimRequired) {
+      throw new SigningRequiredError(
+        `DKIM signing is required for ${signingDomain.name} but its DKIM key is not verified`
+      );
+    }
+    return null;
+  }
+
+  return {
+    domainName: signingDomain!.name,
+    keySelector: signingDomain!.dkimSelector || 'imail',
+    privateKey: signingDomain!.dkimPrivateKey!,
+    headerFieldNames: config.dkim.headerFieldNames,
+  };
+};
+
 let transporter: Transporter | null = null;
 
 const getTransporter = (): Transporter => {
@@ -39,68 +135,134 @@ async function processEmailJob(job: Job<EmailJobData>): Promise<EmailJobResult>
   const smtp = getTransporter();
 
   try {
+    // Sign with the domain's own key instead of relying on the relay's DKIM config
+    const dkim = await getDkimOptions(data);
+
+    // Load attachment content from the database (only references travel through Redis)
+    const attachments = data.attachments?.length
+      ? await loadAttachments(data.attachments)
+      : undefined;
+
     // Build email options
     const mailOptions = {
       from: data.from.name ? `"${data.from.name}" <${data.from.address}>` : data.from.address,
       to: data.to.join(', '),
+      cc: data.cc?.length ? data.cc.join(', ') : undefined,
+      // nodemailer uses bcc for the SMTP envelope only and never writes a Bcc header
+      bcc: data.bcc?.length ? data.bcc.join(', ') : undefined,
       subject: data.subject,
       html: data.html,
       text: data.text,
       replyTo: data.replyTo,
+      attachments,
       headers: {
         'X-Message-Id': data.messageId,
         'X-User-Id': data.userId,
         'X-Domain-Id': data.domainId,
         'X-API-Key-Id': data.apiKeyId,
-        ...(data.headers || {}),
+        ...sanitizeHeaders(data),
       },
       messageId: data.messageId,
+      ...(dkim && { dkim }),
     };
 
     // Send email via Haraka
-    const info = await smtp.sendMail(mailOptions);
+    let smtpResponse: string | undefined;
+    let smtpMessageId: string | undefined;
+    const accepted: string[] = [];
+    const rejected: string[] = [];
 
-    console.log(`[Email Worker] Email sent: ${data.messageId} - Response: ${info.response}`);
+    if (!data.trackingRecipients && data.messageType !== 'marketing') {
+      const info = await smtp.sendMail(mailOptions);
+      smtpResponse = info.response;
+      smtpMessageId = info.messageId;
+      accepted.push(...(info.accepted as string[]));
+      rejected.push(...(info.rejected as string[]));
 
-    // Update email events from 'queued' to 'sent'
-    await db
-      .update(emailEvent)
-      .set({
-        eventType: 'sent',
-        metadata: JSON.stringify({
-          smtpResponse: info.response,
-          smtpMessageId: info.messageId,
-          accepted: info.accepted,
-          rejected: info.rejected,
-        }),
-      })
-      .where(eq(emailEvent.messageId, data.messageId));
+      // Update email events from 'queued' to 'sent'
+      await db
+        .update(emailEvent)
+        .set({
+          eventType: 'sent',
+          metadata: mergeMetadata({ smtpResponse, smtpMessageId, accepted, rejected, dkimSigned: !!dkim }),
+        })
+        .where(eq(emailEvent.messageId, data.messageId));
+    } else {
+      // Tracked and marketing mail goes out as one copy per recipient (same Message-ID,
+      // single-recipient envelope) carrying that recipient's tracking ID and unsubscribe link
+      const deliveredTo = [...(data.deliveredTo ?? [])];
+      for (const recipient of getJobRecipients(data)) {
+        if (deliveredTo.includes(recipient)) continue;
+
+        const recipientId = data.trackingRecipients?.[recipient];
+        const info = await smtp.sendMail({
+          ...mailOptions,
+          html: recipientId ? personalizeTracking(data.html, recipientId) : data.html,
+          text: recipientId ? personalizeTracking(data.text, recipientId) : data.text,
+          // The generated unsubscribe headers can't be overridden by custom headers
+          headers: {
+            ...mailOptions.headers,
+            ...buildUnsubscribeHeaders(data, recipient),
+          },
+          envelope: { from: data.from.address, to: [recipient] },
+        });
+        smtpResponse = info.response;
+        smtpMessageId = info.messageId;
+        accepted.push(...(info.accepted as string[]));
+        rejected.push(...(info.rejected as string[]));
+
+        // The recipient's events are 'sent' as soon as their copy is accepted
+        await db
+          .update(emailEvent)
+          .set({
+            eventType: 'sent',
+            metadata: mergeMetadata({
+              smtpResponse: info.response,
+              smtpMessageId: info.messageId,
+              accepted: info.accepted,
+              rejected: info.rejected,
+              dkimSigned: !!dkim,
+            }),
+          })
+          .where(and(eq(emailEvent.messageId, data.messageId), eq(emailEvent.recipientEmail, recipient)));
+
+        // Remember progress so a retry doesn't send this copy again
+        deliveredTo.push(recipient);
+        await job.updateData({ ...data, deliveredTo });
+      }
+    }
+
+    console.log(`[Email Worker] Email sent: ${data.messageId} - Response: ${smtpResponse}`);
 
     return {
       success: true,
       messageId: data.messageId,
-      acceptedRecipients: info.accepted as string[],
-      rejectedRecipients: info.rejected as string[],
-      smtpResponse: info.response,
+      acceptedRecipients: accepted,
+      rejectedRecipients: rejected,
+      smtpResponse,
     };
   } catch (error: any) {
     console.error(`[Email Worker] Failed to send ${data.messageId}:`, error.message);
 
-    // Update email events to 'failed'
+    // Update email events to 'failed' (recipients already sent their copy stay 'sent')
+    const delivered = job.data.deliveredTo ?? [];
     await db
       .update(emailEvent)
       .set({
         eventType: 'failed',
-        metadata: JSON.stringify({
+        metadata: mergeMetadata({
           error: error.message,
           code: error.code,
           attempt: job.attemptsMade + 1,
         }),
       })
-      .where(eq(emailEvent.messageId, data.messageId));
+      .where(and(
+        eq(emailEvent.messageId, data.messageId),
+        delivered.length > 0 ? notInArray(emailEvent.recipientEmail, delivered) : undefined
+      ));
 
-    // If this is the last attempt, rollback the email count
-    if (job.attemptsMade + 1 >= (job.opts.attempts || 3)) {
+    // If this is the last attempt (or the job won't be retried), rollback the email count
+    if (error instanceof UnrecoverableError || job.attemptsMade + 1 >= (job.opts.attempts || 3)) {
       console.log(`[Email Worker] Last attempt failed for ${data.messageId}, rolling back email count`);
       
       // Get user's billing record and decrement email used
@@ -112,7 +274,7 @@ async function processEmailJob(job: Job<EmailJobData>): Promise<EmailJobResult>
         await db
           .update(userBilling)
           .set({
-            emailUsed: sql`GREATEST(0, ${userBilling.emailUsed} - ${data.to.length})`,
+            emailUsed: sql`GREATEST(0, ${userBilling.emailUsed} - ${getUndeliveredRecipients(job.data).length})`,
           })
           .where(eq(userBilling.id, billing.id));
       }